@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { Prisma } from "@prisma/client";
+
+// Most entries returned at once, newest first
+const AUDIT_LOG_LIMIT = 500;
+
+// GET /api/audit-logs - Get the audit log, newest first, optionally filtered
+// by ?roomId=, ?tenantId= and a date range ?from=YYYY-MM-DD&to=YYYY-MM-DD
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize("audit:view");
+    if (auth.error) return auth.error;
+
+    const { searchParams } = request.nextUrl;
+    const where: Prisma.AuditLogWhereInput = {};
+
+    const roomId = searchParams.get("roomId");
+    if (roomId) {
+      if (isNaN(parseInt(roomId))) {
+        return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+      }
+      where.roomId = parseInt(roomId);
+    }
+
+    const tenantId = searchParams.get("tenantId");
+    if (tenantId) {
+      if (isNaN(parseInt(tenantId))) {
+        return NextResponse.json(
+          { error: "Invalid tenant ID" },
+          { status: 400 }
+        );
+      }
+      where.tenantId = parseInt(tenantId);
+    }
+
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    if (from || to) {
+      const fromDate = from ? new Date(from) : undefined;
+      // The end date is included, up to midnight after it
+      const toDate = to ? new Date(to) : undefined;
+      toDate?.setUTCDate(toDate.getUTCDate() + 1);
+
+      if (
+        (fromDate && isNaN(fromDate.getTime())) ||
+        (toDate && isNaN(toDate.getTime()))
+      ) {
+        return NextResponse.json(
+          { error: "Invalid date format for from or to" },
+          { status: 400 }
+        );
+      }
+      where.createdAt = { gte: fromDate, lt: toDate };
+    }
+
+    const logs = await prisma.auditLog.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: AUDIT_LOG_LIMIT,
+    });
+
+    // Names of the rooms and tenants the entries concern, for display.
+    // Deleted ones are left out.
+    const [rooms, tenants] = await Promise.all([
+      prisma.room.findMany({
+        where: { id: { in: logs.flatMap((log) => log.roomId ?? []) } },
+        select: { id: true, name: true },
+      }),
+      prisma.tenant.findMany({
+        where: { id: { in: logs.flatMap((log) => log.tenantId ?? []) } },
+        select: { id: true, name: true },
+      }),
+    ]);
+    const roomNames = new Map(rooms.map((room) => [room.id, room.name]));
+    const tenantNames = new Map(
+      tenants.map((tenant) => [tenant.id, tenant.name])
+    );
+
+    return NextResponse.json(
+      logs.map((log) => ({
+        ...log,
+        roomName: log.roomId ? (roomNames.get(log.roomId) ?? null) : null,
+        tenantName: log.tenantId
+          ? (tenantNames.get(log.tenantId) ?? null)
+          : null,
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch audit log" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { verifyPassword } from "@/lib/password";
+import { SESSION_COOKIE, createSessionToken } from "@/lib/session";
+import { sessionCookieOptions } from "@/lib/auth";
+
+// POST /api/auth/login - Log in with email and password
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { email, password } = body;
+
+    if (!email || !password) {
+      return NextResponse.json(
+        { error: "Email and password are required" },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: String(email).trim().toLowerCase() },
+    });
+
+    // Give the same answer for unknown users and wrong passwords
+    if (
+      !user ||
+      !user.passwordHash ||
+      !(await verifyPassword(String(password), user.passwordHash))
+    ) {
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    const token = await createSessionToken({
+      userId: user.id,
+      email: user.email,
+    });
+
+    const response = NextResponse.json({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+    });
+    response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions);
+    return response;
+  } catch (error) {
+    console.error("Error logging in:", error);
+    return NextResponse.json({ error: "Failed to log in" }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+// POST /api/charges/[id]/waive - Waive a charge, e.g. a late fee
+// Body: { reason } - required, kept with the charge
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("payments:write");
+    if (auth.error) return auth.error;
+
+    const chargeId = parseInt((await params).id);
+
+    if (isNaN(chargeId)) {
+      return NextResponse.json({ error: "Invalid charge ID" }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+    if (!reason) {
+      return NextResponse.json(
+        { error: "A reason is required to waive a charge" },
+        { status: 400 }
+      );
+    }
+
+    const existingCharge = await prisma.charge.findUnique({
+      where: { id: chargeId },
+    });
+
+    if (!existingCharge) {
+      return NextResponse.json({ error: "Charge not found" }, { status: 404 });
+    }
+
+    if (existingCharge.waivedAt) {
+      return NextResponse.json(
+        { error: "This charge has already been waived" },
+        { status: 400 }
+      );
+    }
+
+    const charge = await prisma.$transaction(async (tx) => {
+      const charge = await tx.charge.update({
+        where: { id: chargeId },
+        data: {
+          waivedAt: new Date(),
+          waivedReason: reason,
+          waivedBy: auth.user.name || auth.user.email,
+        },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "UPDATE",
+          entity: "Charge",
+          entityId: chargeId,
+          before: existingCharge,
+          after: charge,
+          roomId: charge.roomId,
+        },
+        tx
+      );
+
+      return charge;
+    });
+
+    return NextResponse.json(charge);
+  } catch (error) {
+    console.error("Error waiving charge:", error);
+    return NextResponse.json(
+      { error: "Failed to waive charge" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { applyLateFees } from "@/lib/late-fees";
+
+// POST /api/charges/late-fees - Bring the late fees of every occupied room,
+// or of a single room, up to date
+// Body: { roomId? }
+export async function POST(req: Request) {
+  try {
+    const auth = await authorize("payments:write");
+    if (auth.error) return auth.error;
+
+    const body = await req.json().catch(() => ({}));
+    const roomId =
+      body.roomId !== undefined ? parseInt(body.roomId) : undefined;
+
+    if (roomId !== undefined && isNaN(roomId)) {
+      return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+    }
+
+    const count = await applyLateFees(auth.user, { roomId });
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    console.error("Error applying late fees:", error);
+    return NextResponse.json(
+      { error: "Failed to apply late fees" },
+      { status: 500 }
+    );
+  }
+}
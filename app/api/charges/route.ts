@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+// GET /api/charges?roomId= - Get the charges on a room's account, including
+// waived ones
+export async function GET(request: NextRequest) {
+  try {
+    const roomIdParam = request.nextUrl.searchParams.get("roomId");
+    const roomId = roomIdParam ? parseInt(roomIdParam) : NaN;
+
+    if (isNaN(roomId)) {
+      return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+    }
+
+    const charges = await prisma.charge.findMany({
+      where: { roomId },
+      orderBy: [{ billingMonth: "desc" }, { id: "desc" }],
+    });
+
+    return NextResponse.json(charges);
+  } catch (error) {
+    console.error("Error fetching charges:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch charges" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+// DELETE /api/deposits/[id] - Delete a deposit recorded by mistake
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("payments:write");
+    if (auth.error) return auth.error;
+
+    const depositId = parseInt((await params).id);
+
+    if (isNaN(depositId)) {
+      return NextResponse.json(
+        { error: "Invalid deposit ID" },
+        { status: 400 }
+      );
+    }
+
+    const existingDeposit = await prisma.deposit.findUnique({
+      where: { id: depositId },
+      include: { _count: { select: { transactions: true } } },
+    });
+
+    if (!existingDeposit) {
+      return NextResponse.json({ error: "Deposit not found" }, { status: 404 });
+    }
+
+    // Once money has been deducted or refunded the deposit is part of the
+    // checkout record and must stay
+    if (existingDeposit._count.transactions > 0) {
+      return NextResponse.json(
+        {
+          error:
+            "This deposit has deductions or refunds and can no longer be deleted",
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.deposit.delete({
+        where: { id: depositId },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "DELETE",
+          entity: "Deposit",
+          entityId: depositId,
+          before: existingDeposit,
+          roomId: existingDeposit.roomId,
+          tenantId: existingDeposit.tenantId,
+        },
+        tx
+      );
+    });
+
+    return NextResponse.json({ message: "Deposit deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting deposit:", error);
+    return NextResponse.json(
+      { error: "Failed to delete deposit" },
+      { status: 500 }
+    );
+  }
+}
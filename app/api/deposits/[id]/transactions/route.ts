@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { DepositTransactionType, PaymentMethod } from "@prisma/client";
+import {
+  getDepositBalance,
+  validateDepositTransactionInput,
+} from "@/lib/deposits";
+import { recordAudit } from "@/lib/audit";
+import { lockDeposit } from "@/lib/locks";
+
+// POST /api/deposits/[id]/transactions - Deduct from or refund a deposit
+// Body: { type: "DEDUCTION" | "REFUND", amount, date?, reason?, method? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("payments:write");
+    if (auth.error) return auth.error;
+
+    const depositId = parseInt((await params).id);
+
+    if (isNaN(depositId)) {
+      return NextResponse.json(
+        { error: "Invalid deposit ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    const validationError = validateDepositTransactionInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const deposit = await prisma.$transaction(async (tx) => {
+      await lockDeposit(tx, depositId);
+      const existingDeposit = await tx.deposit.findUnique({
+        where: { id: depositId },
+        include: { transactions: true },
+      });
+
+      if (!existingDeposit) {
+        return null;
+      }
+
+      // More than what is still held can't be taken out
+      const balance = getDepositBalance(existingDeposit);
+      if (Number(body.amount) > balance) {
+        return { balance };
+      }
+
+      const deposit = await tx.deposit.update({
+        where: { id: depositId },
+        data: {
+          transactions: {
+            create: {
+              type: body.type as DepositTransactionType,
+              amount: Number(body.amount),
+              date: body.date ? new Date(body.date) : undefined,
+              reason: body.reason?.trim() || null,
+              method:
+                body.type === "REFUND"
+                  ? ((body.method as PaymentMethod | undefined) ?? "CASH")
+                  : null,
+            },
+          },
+        },
+        include: {
+          tenant: {
+            select: { id: true, name: true },
+          },
+          transactions: {
+            orderBy: [{ date: "asc" }, { id: "asc" }],
+          },
+        },
+      });
+
+      // The transaction just added is the one with the highest ID
+      const transaction = deposit.transactions.reduce((latest, current) =>
+        current.id > latest.id ? current : latest
+      );
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "CREATE",
+          entity: "DepositTransaction",
+          entityId: transaction.id,
+          after: transaction,
+          roomId: deposit.roomId,
+          tenantId: deposit.tenantId,
+        },
+        tx
+      );
+
+      return deposit;
+    });
+
+    if (!deposit) {
+      return NextResponse.json({ error: "Deposit not found" }, { status: 404 });
+    }
+
+    if (!("id" in deposit)) {
+      return NextResponse.json(
+        {
+          error: `Amount can't be more than the ₹${deposit.balance} still held`,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { ...deposit, balance: getDepositBalance(deposit) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error updating deposit:", error);
+    return NextResponse.json(
+      { error: "Failed to update deposit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { Prisma, PaymentMethod } from "@prisma/client";
+import { getDepositBalance, validateDepositInput } from "@/lib/deposits";
+import { recordAudit } from "@/lib/audit";
+
+// GET /api/deposits - Get security deposits with their deductions and refunds,
+// optionally filtered by room or tenant. A deposit follows the tenant who paid
+// it, so a room's deposits are those of the tenants in it (or who moved out of
+// it). Each deposit includes its balance, the amount still owed back.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const where: Prisma.DepositWhereInput = {};
+
+    const roomId = searchParams.get("roomId");
+    if (roomId) {
+      if (isNaN(parseInt(roomId))) {
+        return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+      }
+      where.tenant = { roomId: parseInt(roomId) };
+    }
+
+    const tenantId = searchParams.get("tenantId");
+    if (tenantId) {
+      if (isNaN(parseInt(tenantId))) {
+        return NextResponse.json(
+          { error: "Invalid tenant ID" },
+          { status: 400 }
+        );
+      }
+      where.tenantId = parseInt(tenantId);
+    }
+
+    const deposits = await prisma.deposit.findMany({
+      where,
+      include: {
+        tenant: {
+          select: { id: true, name: true },
+        },
+        transactions: {
+          orderBy: [{ date: "asc" }, { id: "asc" }],
+        },
+      },
+      orderBy: [{ receivedOn: "desc" }, { id: "desc" }],
+    });
+
+    return NextResponse.json(
+      deposits.map((deposit) => ({
+        ...deposit,
+        balance: getDepositBalance(deposit),
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching deposits:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch deposits" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/deposits - Record a security deposit paid by a tenant of a room
+// Body: { roomId, tenantId, amount, receivedOn?, method?, notes? }
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("payments:write");
+    if (auth.error) return auth.error;
+
+    const body = await request.json();
+
+    const roomId = Number(body.roomId);
+    if (!body.roomId || isNaN(roomId)) {
+      return NextResponse.json(
+        { error: "A valid room is required" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateDepositInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const tenantId = Number(body.tenantId);
+    if (!body.tenantId || isNaN(tenantId)) {
+      return NextResponse.json(
+        { error: "Choose the tenant who paid the deposit" },
+        { status: 400 }
+      );
+    }
+
+    // The paying tenant must live in the room
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+    });
+
+    if (!tenant || tenant.deletedAt || tenant.roomId !== roomId) {
+      return NextResponse.json(
+        { error: "The specified tenant does not belong to this room" },
+        { status: 400 }
+      );
+    }
+
+    const deposit = await prisma.$transaction(async (tx) => {
+      const deposit = await tx.deposit.create({
+        data: {
+          amount: Number(body.amount),
+          receivedOn: body.receivedOn ? new Date(body.receivedOn) : undefined,
+          method: body.method as PaymentMethod | undefined,
+          notes: body.notes || null,
+          roomId,
+          tenantId,
+        },
+        include: {
+          tenant: {
+            select: { id: true, name: true },
+          },
+          transactions: true,
+        },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "CREATE",
+          entity: "Deposit",
+          entityId: deposit.id,
+          after: deposit,
+          roomId,
+          tenantId,
+        },
+        tx
+      );
+
+      return deposit;
+    });
+
+    return NextResponse.json(
+      { ...deposit, balance: getDepositBalance(deposit) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating deposit:", error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      return NextResponse.json(
+        { error: "The specified room does not exist" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to record deposit" },
+      { status: 500 }
+    );
+  }
+}
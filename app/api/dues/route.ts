@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRoomDues } from "@/lib/dues";
+
+// GET /api/dues - Get rent due, paid and in arrears for each occupied room
+// Optional filters: ?roomId= for a single room, ?asOf=YYYY-MM-DD for the
+// dues on an earlier date, ?defaulters=true for only rooms in arrears
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    const roomIdParam = searchParams.get("roomId");
+    const roomId = roomIdParam ? parseInt(roomIdParam) : undefined;
+    if (roomId !== undefined && isNaN(roomId)) {
+      return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+    }
+
+    const asOfParam = searchParams.get("asOf");
+    const asOf = asOfParam ? new Date(asOfParam) : new Date();
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid date format for asOf" },
+        { status: 400 }
+      );
+    }
+
+    let rooms = await getRoomDues({ roomId, asOf });
+    if (searchParams.get("defaulters") === "true") {
+      rooms = rooms.filter((room) => room.arrears > 0);
+    }
+
+    return NextResponse.json({
+      asOf,
+      rooms,
+      totalArrears: rooms.reduce((total, room) => total + room.arrears, 0),
+    });
+  } catch (error) {
+    console.error("Error calculating dues:", error);
+    return NextResponse.json(
+      { error: "Failed to calculate dues" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,285 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { compareRooms } from "@/lib/rooms";
+import { isValidBillingMonth, toBillingMonth } from "@/lib/utils";
+import { getLodgeSettings } from "@/lib/late-fees";
+import {
+  calculateElectricityBill,
+  describeElectricityBill,
+  validateMeterReadingInput,
+} from "@/lib/electricity";
+import { AuditActor, recordAudit } from "@/lib/audit";
+
+// GET /api/meter-readings?billingMonth=YYYY-MM - Get every room with its
+// reading for the month (the current month by default), its previous reading
+// and the electricity charge for the month
+export async function GET(request: NextRequest) {
+  try {
+    const billingMonth =
+      request.nextUrl.searchParams.get("billingMonth") ??
+      toBillingMonth(new Date());
+
+    if (!isValidBillingMonth(billingMonth)) {
+      return NextResponse.json(
+        { error: "Billing month must be in YYYY-MM format" },
+        { status: 400 }
+      );
+    }
+
+    const [settings, rooms] = await Promise.all([
+      getLodgeSettings(),
+      prisma.room.findMany({
+        where: { deletedAt: null, retiredAt: null },
+        include: {
+          tenants: {
+            where: { status: "ACTIVE", deletedAt: null },
+            select: { name: true },
+            orderBy: { createdAt: "asc" },
+          },
+          meterReadings: {
+            where: { billingMonth: { lte: billingMonth } },
+            orderBy: { billingMonth: "desc" },
+            take: 2,
+          },
+          charges: {
+            where: { billingMonth, type: "ELECTRICITY" },
+          },
+        },
+      }),
+    ]);
+
+    return NextResponse.json({
+      billingMonth,
+      electricityRate: settings.electricityRate,
+      electricitySplit: settings.electricitySplit,
+      rooms: rooms.sort(compareRooms).map((room) => {
+        const [latest, earlier] = room.meterReadings;
+        const reading = latest?.billingMonth === billingMonth ? latest : null;
+        const previous = reading ? earlier : latest;
+
+        return {
+          roomId: room.id,
+          roomName: room.name,
+          floor: room.floor,
+          tenants: room.tenants.map((tenant) => tenant.name),
+          previous: previous
+            ? { billingMonth: previous.billingMonth, reading: previous.reading }
+            : null,
+          reading: reading ?? null,
+          charge: room.charges[0] ?? null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Error fetching meter readings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch meter readings" },
+      { status: 500 }
+    );
+  }
+}
+
+// Add or update the electricity charge for a reading, billed from the reading
+// before it, and record the change in the audit log
+async function upsertElectricityCharge(
+  tx: Pick<typeof prisma, "charge" | "auditLog">,
+  actor: AuditActor,
+  roomId: number,
+  previousReading: number,
+  reading: { billingMonth: string; reading: number; rate: number },
+  tenantNames: string[]
+) {
+  const bill = calculateElectricityBill(
+    previousReading,
+    reading.reading,
+    reading.rate,
+    tenantNames
+  );
+  const description = describeElectricityBill(
+    previousReading,
+    reading.reading,
+    reading.rate,
+    bill
+  );
+
+  const where = {
+    roomId_billingMonth_type: {
+      roomId,
+      billingMonth: reading.billingMonth,
+      type: "ELECTRICITY" as const,
+    },
+  };
+  const existing = await tx.charge.findUnique({ where });
+  const charge = await tx.charge.upsert({
+    where,
+    create: {
+      roomId,
+      billingMonth: reading.billingMonth,
+      type: "ELECTRICITY",
+      amount: bill.amount,
+      description,
+    },
+    update: { amount: bill.amount, description },
+  });
+
+  await recordAudit(
+    {
+      actor,
+      action: existing ? "UPDATE" : "CREATE",
+      entity: "Charge",
+      entityId: charge.id,
+      before: existing,
+      after: charge,
+      roomId,
+    },
+    tx
+  );
+
+  return charge;
+}
+
+// POST /api/meter-readings - Record a room's meter reading for a month and
+// bill the units used since its previous reading
+// Body: { roomId, billingMonth, reading, readOn? }
+// Recording the month again corrects the reading and its bill.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("payments:write");
+    if (auth.error) return auth.error;
+
+    const body = await request.json();
+
+    const validationError = validateMeterReadingInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const roomId = Number(body.roomId);
+    const billingMonth = String(body.billingMonth);
+    const value = Number(body.reading);
+
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+      include: {
+        tenants: {
+          where: { status: "ACTIVE", deletedAt: null },
+          select: { name: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!room || room.deletedAt || room.retiredAt) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    const [previous, existing, next] = await Promise.all([
+      prisma.meterReading.findFirst({
+        where: { roomId, billingMonth: { lt: billingMonth } },
+        orderBy: { billingMonth: "desc" },
+      }),
+      prisma.meterReading.findUnique({
+        where: { roomId_billingMonth: { roomId, billingMonth } },
+      }),
+      prisma.meterReading.findFirst({
+        where: { roomId, billingMonth: { gt: billingMonth } },
+        orderBy: { billingMonth: "asc" },
+      }),
+    ]);
+
+    // Meters only count up
+    if (previous && value < previous.reading) {
+      return NextResponse.json(
+        {
+          error: `Reading can't be lower than the previous reading of ${previous.reading} for ${previous.billingMonth}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (next && value > next.reading) {
+      return NextResponse.json(
+        {
+          error: `Reading can't be higher than the later reading of ${next.reading} for ${next.billingMonth}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const settings = await getLodgeSettings();
+    const tenantNames =
+      settings.electricitySplit === "TENANTS"
+        ? room.tenants.map((tenant) => tenant.name)
+        : [];
+
+    const { reading, charge } = await prisma.$transaction(async (tx) => {
+      const reading = await tx.meterReading.upsert({
+        where: { roomId_billingMonth: { roomId, billingMonth } },
+        create: {
+          roomId,
+          billingMonth,
+          reading: value,
+          readOn: body.readOn ? new Date(body.readOn) : undefined,
+          rate: settings.electricityRate,
+          recordedBy: auth.user.name || auth.user.email,
+        },
+        update: {
+          reading: value,
+          readOn: body.readOn ? new Date(body.readOn) : undefined,
+          recordedBy: auth.user.name || auth.user.email,
+        },
+      });
+
+      // The first reading of a room only sets where its meter starts
+      const charge = previous
+        ? await upsertElectricityCharge(
+            tx,
+            auth.user,
+            roomId,
+            previous.reading,
+            reading,
+            tenantNames
+          )
+        : null;
+
+      // The next reading is now billed from this one
+      if (next) {
+        await upsertElectricityCharge(
+          tx,
+          auth.user,
+          roomId,
+          value,
+          next,
+          tenantNames
+        );
+      }
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: existing ? "UPDATE" : "CREATE",
+          entity: "MeterReading",
+          entityId: reading.id,
+          before: existing,
+          after: reading,
+          roomId,
+        },
+        tx
+      );
+
+      return { reading, charge };
+    });
+
+    return NextResponse.json(
+      { ...reading, charge },
+      { status: existing ? 200 : 201 }
+    );
+  } catch (error) {
+    console.error("Error recording meter reading:", error);
+    return NextResponse.json(
+      { error: "Failed to record meter reading" },
+      { status: 500 }
+    );
+  }
+}
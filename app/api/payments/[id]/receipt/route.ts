@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getLodgeDetails } from "@/lib/lodge";
+import { pdfResponse } from "@/lib/pdf";
+import { formatReceiptNumber } from "@/lib/payments";
+import { createReceiptPdf } from "@/lib/receipts";
+import { findTenantsInRoomOn } from "@/lib/tenants";
+
+// GET /api/payments/[id]/receipt - Receipt of a payment as a PDF
+// Reprints carry the same receipt number; cancelled payments print as void
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const paymentId = parseInt((await params).id);
+
+    if (isNaN(paymentId)) {
+      return NextResponse.json(
+        { error: "Invalid payment ID" },
+        { status: 400 }
+      );
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        room: true,
+        tenant: {
+          select: { name: true },
+        },
+      },
+    });
+
+    if (!payment) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    // Everyone who was staying in the room on the day it was paid
+    const tenants = await findTenantsInRoomOn(payment.roomId, payment.paidOn);
+    const tenantNames = tenants.map((tenant) => tenant.name);
+    if (tenantNames.length === 0 && payment.tenant) {
+      tenantNames.push(payment.tenant.name);
+    }
+
+    // Charges for the same month that were due when it was paid, e.g. the
+    // electricity bill. Charges added later are left out so a reprint matches
+    // the receipt first given.
+    const charges = await prisma.charge.findMany({
+      where: {
+        roomId: payment.roomId,
+        billingMonth: payment.billingMonth,
+        waivedAt: null,
+        createdAt: { lte: payment.createdAt },
+      },
+      select: { type: true, amount: true, description: true },
+      orderBy: { id: "asc" },
+    });
+
+    const pdf = await createReceiptPdf(
+      {
+        ...payment,
+        roomName: payment.room.name,
+        tenantNames,
+        paidBy: payment.tenant?.name ?? null,
+        charges,
+      },
+      getLodgeDetails()
+    );
+
+    return pdfResponse(
+      pdf,
+      `receipt-${formatReceiptNumber(payment.receiptNumber)}.pdf`
+    );
+  } catch (error) {
+    console.error("Error creating receipt:", error);
+    return NextResponse.json(
+      { error: "Failed to create receipt" },
+      { status: 500 }
+    );
+  }
+}
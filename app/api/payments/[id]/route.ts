@@ -0,0 +1,229 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { PaymentMethod } from "@prisma/client";
+import { validatePaymentInput } from "@/lib/payments";
+import { recordAudit } from "@/lib/audit";
+
+// GET /api/payments/[id] - Get a specific payment
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const paymentId = parseInt((await params).id);
+
+    if (isNaN(paymentId)) {
+      return NextResponse.json(
+        { error: "Invalid payment ID" },
+        { status: 400 }
+      );
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        room: true,
+        tenant: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    if (!payment) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(payment);
+  } catch (error) {
+    console.error("Error fetching payment:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch payment" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/payments/[id] - Correct a recorded payment
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("payments:write");
+    if (auth.error) return auth.error;
+
+    const paymentId = parseInt((await params).id);
+
+    if (isNaN(paymentId)) {
+      return NextResponse.json(
+        { error: "Invalid payment ID" },
+        { status: 400 }
+      );
+    }
+
+    const body = await req.json();
+
+    const validationError = validatePaymentInput(body, true);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    // Check if payment exists
+    const existingPayment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+    });
+
+    if (!existingPayment) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    if (existingPayment.voidedAt) {
+      return NextResponse.json(
+        { error: "A cancelled payment can't be changed" },
+        { status: 400 }
+      );
+    }
+
+    // The room of a payment is fixed, but the paying tenant can be corrected
+    if (body.tenantId) {
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: Number(body.tenantId) },
+      });
+
+      if (!tenant || tenant.roomId !== existingPayment.roomId) {
+        return NextResponse.json(
+          { error: "The specified tenant does not belong to this room" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const payment = await prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          amount: body.amount !== undefined ? Number(body.amount) : undefined,
+          billingMonth: body.billingMonth,
+          paidOn: body.paidOn ? new Date(body.paidOn) : undefined,
+          method: body.method as PaymentMethod | undefined,
+          collectedBy: body.collectedBy,
+          notes: body.notes,
+          tenantId:
+            body.tenantId !== undefined
+              ? body.tenantId
+                ? Number(body.tenantId)
+                : null
+              : undefined,
+        },
+        include: {
+          room: true,
+          tenant: {
+            select: { id: true, name: true },
+          },
+        },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "UPDATE",
+          entity: "Payment",
+          entityId: paymentId,
+          before: existingPayment,
+          after: payment,
+          roomId: payment.roomId,
+          tenantId: payment.tenantId,
+        },
+        tx
+      );
+
+      return payment;
+    });
+
+    return NextResponse.json(payment);
+  } catch (error) {
+    console.error("Error updating payment:", error);
+    return NextResponse.json(
+      { error: "Failed to update payment" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/payments/[id] - Cancel a payment recorded by mistake
+// The payment is kept and marked void so its receipt number stays in the
+// sequence. An optional ?reason= is printed on the void receipt.
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("payments:write");
+    if (auth.error) return auth.error;
+
+    const paymentId = parseInt((await params).id);
+
+    if (isNaN(paymentId)) {
+      return NextResponse.json(
+        { error: "Invalid payment ID" },
+        { status: 400 }
+      );
+    }
+
+    // Check if payment exists
+    const existingPayment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+    });
+
+    if (!existingPayment) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    if (existingPayment.voidedAt) {
+      return NextResponse.json(
+        { error: "This payment has already been cancelled" },
+        { status: 400 }
+      );
+    }
+
+    const reason = new URL(req.url).searchParams.get("reason")?.trim();
+
+    const payment = await prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.update({
+        where: { id: paymentId },
+        data: {
+          voidedAt: new Date(),
+          voidReason: reason || null,
+        },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "UPDATE",
+          entity: "Payment",
+          entityId: paymentId,
+          before: existingPayment,
+          after: payment,
+          roomId: payment.roomId,
+          tenantId: payment.tenantId,
+        },
+        tx
+      );
+
+      return payment;
+    });
+
+    return NextResponse.json({
+      message: "Payment cancelled successfully",
+      payment,
+    });
+  } catch (error) {
+    console.error("Error cancelling payment:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel payment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { Prisma, PaymentMethod } from "@prisma/client";
+import { validatePaymentInput } from "@/lib/payments";
+import { recordAudit } from "@/lib/audit";
+import { takeNextNumber } from "@/lib/counters";
+
+// GET /api/payments - Get payments, optionally filtered by room, tenant or billing month
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const where: Prisma.PaymentWhereInput = {};
+
+    const roomId = searchParams.get("roomId");
+    if (roomId) {
+      if (isNaN(parseInt(roomId))) {
+        return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+      }
+      where.roomId = parseInt(roomId);
+    }
+
+    const tenantId = searchParams.get("tenantId");
+    if (tenantId) {
+      if (isNaN(parseInt(tenantId))) {
+        return NextResponse.json(
+          { error: "Invalid tenant ID" },
+          { status: 400 }
+        );
+      }
+      where.tenantId = parseInt(tenantId);
+    }
+
+    const billingMonth = searchParams.get("billingMonth");
+    if (billingMonth) {
+      where.billingMonth = billingMonth;
+    }
+
+    const payments = await prisma.payment.findMany({
+      where,
+      include: {
+        room: true,
+        tenant: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: [{ paidOn: "desc" }, { id: "desc" }],
+    });
+
+    return NextResponse.json(payments);
+  } catch (error) {
+    console.error("Error fetching payments:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch payments" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/payments - Record a rent payment against a room
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("payments:write");
+    if (auth.error) return auth.error;
+
+    const body = await request.json();
+
+    const roomId = Number(body.roomId);
+    if (!body.roomId || isNaN(roomId)) {
+      return NextResponse.json(
+        { error: "A valid room is required" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validatePaymentInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    // The paying tenant, if given, must live in the room being paid for
+    let tenantId: number | null = null;
+    if (body.tenantId) {
+      tenantId = Number(body.tenantId);
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: tenantId },
+      });
+
+      if (!tenant || tenant.roomId !== roomId) {
+        return NextResponse.json(
+          { error: "The specified tenant does not belong to this room" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const payment = await prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.create({
+        data: {
+          receiptNumber: await takeNextNumber(tx, "receipt"),
+          amount: Number(body.amount),
+          billingMonth: body.billingMonth,
+          paidOn: body.paidOn ? new Date(body.paidOn) : undefined,
+          method: body.method as PaymentMethod | undefined,
+          collectedBy: body.collectedBy || null,
+          notes: body.notes || null,
+          roomId,
+          tenantId,
+        },
+        include: {
+          room: true,
+          tenant: {
+            select: { id: true, name: true },
+          },
+        },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "CREATE",
+          entity: "Payment",
+          entityId: payment.id,
+          after: payment,
+          roomId: roomId,
+          tenantId: tenantId,
+        },
+        tx
+      );
+
+      return payment;
+    });
+
+    return NextResponse.json(payment, { status: 201 });
+  } catch (error) {
+    console.error("Error creating payment:", error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2003"
+    ) {
+      return NextResponse.json(
+        { error: "The specified room does not exist" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to record payment" },
+      { status: 500 }
+    );
+  }
+}
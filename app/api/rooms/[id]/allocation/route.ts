@@ -0,0 +1,240 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import { maskTenant } from "@/lib/aadhar";
+import { findCurrentTenantByAadhar } from "@/lib/tenants";
+import { TenantFieldErrors, validateTenant } from "@/lib/tenant-schema";
+import { checkCapacity } from "@/lib/rooms";
+import { recordAudit } from "@/lib/audit";
+import { archiveCurrentPeriod } from "@/lib/dues";
+
+// POST /api/rooms/[id]/allocation - Allocate a room to a new set of tenants
+// Sets the rent and period, moves the current tenants out and adds the new
+// ones in a single transaction, so the room is never left half-filled. The
+// earlier period is kept in the room's period history up to the new one.
+// Body: { rentAmount, periodFrom, periodTo, tenants: [...] }
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("tenants:write");
+    if (auth.error) return auth.error;
+
+    const roomId = parseInt((await params).id);
+
+    if (isNaN(roomId)) {
+      return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const rentAmount = Number(body.rentAmount);
+
+    if (
+      body.rentAmount === undefined ||
+      body.rentAmount === "" ||
+      isNaN(rentAmount) ||
+      rentAmount < 0
+    ) {
+      return NextResponse.json(
+        { error: "Rent amount must be a valid positive number" },
+        { status: 400 }
+      );
+    }
+
+    const periodFrom = new Date(body.periodFrom);
+    const periodTo = new Date(body.periodTo);
+
+    if (
+      !body.periodFrom ||
+      !body.periodTo ||
+      isNaN(periodFrom.getTime()) ||
+      isNaN(periodTo.getTime())
+    ) {
+      return NextResponse.json(
+        { error: "Valid periodFrom and periodTo dates are required" },
+        { status: 400 }
+      );
+    }
+
+    if (periodTo < periodFrom) {
+      return NextResponse.json(
+        { error: "Period To must be after Period From" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.tenants) || body.tenants.length === 0) {
+      return NextResponse.json(
+        { error: "At least one tenant is required" },
+        { status: 400 }
+      );
+    }
+
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+    });
+
+    if (!room || room.deletedAt || room.retiredAt) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    // The new tenants replace the current ones, so only they need beds
+    const capacityError = checkCapacity(room, body.tenants.length);
+    if (capacityError) {
+      return NextResponse.json({ error: capacityError }, { status: 409 });
+    }
+
+    // Only owners can change the rent
+    if (
+      rentAmount !== room.rentAmount &&
+      !can(auth.user.role, "rooms:setRent")
+    ) {
+      return NextResponse.json(
+        { error: "Only the owner can change the rent amount" },
+        { status: 403 }
+      );
+    }
+
+    // Validate every tenant before changing anything. tenantErrors has one
+    // entry per tenant, in the order they were sent.
+    const results = (body.tenants as unknown[]).map(validateTenant);
+    const tenantErrors: TenantFieldErrors[] = results.map((result) =>
+      result.success ? {} : result.errors
+    );
+    const aadharNumbers = results.map((result) =>
+      result.success ? result.data.aadharNumber : null
+    );
+
+    // The same person can't be added twice, or while staying in another room
+    for (let i = 0; i < results.length; i++) {
+      const aadharNumber = aadharNumbers[i];
+      if (!aadharNumber) continue;
+
+      if (aadharNumbers.indexOf(aadharNumber) < i) {
+        tenantErrors[i] = {
+          aadharNumber: "The same Aadhar number is entered for another tenant",
+        };
+        continue;
+      }
+
+      const duplicate = await findCurrentTenantByAadhar(aadharNumber, {
+        roomId,
+      });
+      if (duplicate) {
+        tenantErrors[i] = {
+          aadharNumber: `${duplicate.name} in room ${duplicate.room.name} already has this Aadhar number`,
+        };
+      }
+    }
+
+    if (tenantErrors.some((errors) => Object.keys(errors).length > 0)) {
+      return NextResponse.json(
+        { error: "Invalid tenant details", tenantErrors },
+        { status: 400 }
+      );
+    }
+
+    const tenants = results.flatMap((result) =>
+      result.success ? [result.data] : []
+    );
+
+    const { movedOut, updatedRoom } = await prisma.$transaction(async (tx) => {
+      // The months of the earlier period up to the new one stay due
+      await archiveCurrentPeriod(tx, room, periodFrom);
+      const allocatedRoom = await tx.room.update({
+        where: { id: roomId },
+        data: { rentAmount, periodFrom, periodTo },
+      });
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "UPDATE",
+          entity: "Room",
+          entityId: roomId,
+          before: room,
+          after: allocatedRoom,
+          roomId,
+        },
+        tx
+      );
+
+      // Move the previous tenants out, keeping them in the room's history
+      const previousTenants = await tx.tenant.findMany({
+        where: { roomId, status: "ACTIVE", deletedAt: null },
+      });
+      const checkout = {
+        status: "ARCHIVED" as const,
+        checkoutDate: new Date(),
+      };
+      await tx.tenant.updateMany({
+        where: { id: { in: previousTenants.map((tenant) => tenant.id) } },
+        data: checkout,
+      });
+      for (const tenant of previousTenants) {
+        await recordAudit(
+          {
+            actor: auth.user,
+            action: "UPDATE",
+            entity: "Tenant",
+            entityId: tenant.id,
+            before: tenant,
+            after: { ...tenant, ...checkout },
+            roomId,
+            tenantId: tenant.id,
+          },
+          tx
+        );
+      }
+
+      for (const tenant of tenants) {
+        const created = await tx.tenant.create({
+          data: { ...tenant, roomId },
+        });
+        await recordAudit(
+          {
+            actor: auth.user,
+            action: "CREATE",
+            entity: "Tenant",
+            entityId: created.id,
+            after: created,
+            roomId,
+            tenantId: created.id,
+          },
+          tx
+        );
+      }
+
+      return {
+        movedOut: previousTenants.length,
+        updatedRoom: await tx.room.findUniqueOrThrow({
+          where: { id: roomId },
+          include: {
+            tenants: {
+              where: { status: "ACTIVE", deletedAt: null },
+              orderBy: { name: "asc" },
+            },
+          },
+        }),
+      };
+    });
+
+    return NextResponse.json(
+      {
+        room: {
+          ...updatedRoom,
+          tenants: updatedRoom.tenants.map(maskTenant),
+        },
+        movedOut,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error allocating room:", error);
+    return NextResponse.json(
+      { error: "Failed to allocate room" },
+      { status: 500 }
+    );
+  }
+}
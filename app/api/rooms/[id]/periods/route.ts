@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+// GET /api/rooms/[id]/periods - Get the previous rental periods of a room, latest first
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const roomId = parseInt((await params).id);
+
+    if (isNaN(roomId)) {
+      return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+    }
+
+    const periods = await prisma.roomPeriod.findMany({
+      where: { roomId },
+      orderBy: { periodFrom: "desc" },
+    });
+
+    return NextResponse.json(periods);
+  } catch (error) {
+    console.error("Error fetching room periods:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch room periods" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { getLodgeDetails } from "@/lib/lodge";
+import { pdfResponse } from "@/lib/pdf";
+import { createPoliceVerificationPdf } from "@/lib/police-verification";
+
+// GET /api/rooms/[id]/police-verification - Police verification forms of all current tenants of a room as one PDF
+// The forms carry full Aadhar numbers, so they need the same permission as revealing them
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("tenants:revealAadhar");
+    if (auth.error) return auth.error;
+
+    const roomId = parseInt((await params).id);
+
+    if (isNaN(roomId)) {
+      return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+    }
+
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+      include: {
+        tenants: {
+          where: { status: "ACTIVE", deletedAt: null },
+          orderBy: { name: "asc" },
+        },
+      },
+    });
+
+    if (!room || room.deletedAt) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    if (room.tenants.length === 0) {
+      return NextResponse.json(
+        { error: "This room has no current tenants" },
+        { status: 400 }
+      );
+    }
+
+    const pdf = await createPoliceVerificationPdf(
+      room.tenants,
+      {
+        ...room,
+        occupants: room.tenants.map((tenant) => tenant.name),
+      },
+      getLodgeDetails()
+    );
+
+    return pdfResponse(pdf, `police-verification-${room.name}.pdf`);
+  } catch (error) {
+    console.error("Error creating police verification forms:", error);
+    return NextResponse.json(
+      { error: "Failed to create police verification forms" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import { getRenewedPeriod } from "@/lib/rooms";
+import { recordAudit } from "@/lib/audit";
+import { lockRoom } from "@/lib/locks";
+
+// POST /api/rooms/[id]/renew - Renew a room's rental period for another lease term
+// Body: { rentAmount? } - the rent for the new period, unchanged if left out
+// The current period is kept in the room's period history.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("rooms:update");
+    if (auth.error) return auth.error;
+
+    const roomId = parseInt((await params).id);
+
+    if (isNaN(roomId)) {
+      return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { rentAmount } = body;
+
+    if (
+      rentAmount !== undefined &&
+      rentAmount !== null &&
+      rentAmount !== "" &&
+      (isNaN(rentAmount) || rentAmount < 0)
+    ) {
+      return NextResponse.json(
+        { error: "Rent amount must be a valid positive number" },
+        { status: 400 }
+      );
+    }
+
+    const existingRoom = await prisma.room.findUnique({
+      where: { id: roomId },
+      include: {
+        _count: {
+          select: { tenants: { where: { status: "ACTIVE", deletedAt: null } } },
+        },
+      },
+    });
+
+    if (!existingRoom || existingRoom.deletedAt || existingRoom.retiredAt) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    if (existingRoom._count.tenants === 0) {
+      return NextResponse.json(
+        { error: "This room has no current tenants to renew for" },
+        { status: 400 }
+      );
+    }
+
+    const newRent =
+      rentAmount === undefined || rentAmount === null || rentAmount === ""
+        ? existingRoom.rentAmount
+        : Number(rentAmount);
+
+    // Only owners can change the rent
+    if (
+      newRent !== existingRoom.rentAmount &&
+      !can(auth.user.role, "rooms:setRent")
+    ) {
+      return NextResponse.json(
+        { error: "Only the owner can change the rent amount" },
+        { status: 403 }
+      );
+    }
+
+    const { periodFrom, periodTo } = getRenewedPeriod(existingRoom.periodTo);
+
+    const renewed = await prisma.$transaction(async (tx) => {
+      // Lock the room so a double submit or two people renewing at once
+      // can't keep the same period twice, which would charge its rent twice
+      await lockRoom(tx, roomId);
+      const current = await tx.room.findUniqueOrThrow({
+        where: { id: roomId },
+      });
+      const alreadyKept = await tx.roomPeriod.findFirst({
+        where: { roomId, periodFrom: current.periodFrom },
+      });
+      if (
+        alreadyKept ||
+        current.periodTo.getTime() !== existingRoom.periodTo.getTime()
+      ) {
+        return {
+          error:
+            "The room's period has just been changed. Reload and try again.",
+        };
+      }
+
+      await tx.roomPeriod.create({
+        data: {
+          roomId,
+          periodFrom: current.periodFrom,
+          periodTo: current.periodTo,
+          rentAmount: current.rentAmount,
+        },
+      });
+      const room = await tx.room.update({
+        where: { id: roomId },
+        data: { periodFrom, periodTo, rentAmount: newRent },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "UPDATE",
+          entity: "Room",
+          entityId: roomId,
+          before: current,
+          after: room,
+          roomId,
+        },
+        tx
+      );
+
+      return { room };
+    });
+
+    if ("error" in renewed) {
+      return NextResponse.json({ error: renewed.error }, { status: 409 });
+    }
+
+    return NextResponse.json(renewed.room);
+  } catch (error) {
+    console.error("Error renewing room:", error);
+    return NextResponse.json(
+      { error: "Failed to renew room" },
+      { status: 500 }
+    );
+  }
+}
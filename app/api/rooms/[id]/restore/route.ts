@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+// POST /api/rooms/[id]/restore - Take a room back out of the trash
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("rooms:delete");
+    if (auth.error) return auth.error;
+
+    const roomId = parseInt((await params).id);
+
+    if (isNaN(roomId)) {
+      return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+    }
+
+    const existingRoom = await prisma.room.findUnique({
+      where: { id: roomId },
+    });
+
+    if (!existingRoom || !existingRoom.deletedAt) {
+      return NextResponse.json(
+        { error: "Room is not in the trash" },
+        { status: 404 }
+      );
+    }
+
+    const room = await prisma.$transaction(async (tx) => {
+      const room = await tx.room.update({
+        where: { id: roomId },
+        data: { deletedAt: null },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "UPDATE",
+          entity: "Room",
+          entityId: roomId,
+          before: existingRoom,
+          after: room,
+          roomId,
+        },
+        tx
+      );
+
+      return room;
+    });
+
+    return NextResponse.json(room);
+  } catch (error) {
+    console.error("Error restoring room:", error);
+    return NextResponse.json(
+      { error: "Failed to restore room" },
+      { status: 500 }
+    );
+  }
+}
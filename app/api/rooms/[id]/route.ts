@@ -1,5 +1,12 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import { maskTenant } from "@/lib/aadhar";
+import { addMonths } from "@/lib/utils";
+import { LEASE_TERM_MONTHS, RoomType, validateRoomInput } from "@/lib/rooms";
+import { recordAudit } from "@/lib/audit";
+import { archiveCurrentPeriod, getNextRentDate } from "@/lib/dues";
 
 // GET /api/rooms/[id] - Get a specific room
 export async function GET(
@@ -16,15 +23,23 @@ export async function GET(
     const room = await prisma.room.findUnique({
       where: { id: roomId },
       include: {
-        tenants: true,
+        tenants: {
+          where: { status: "ACTIVE", deletedAt: null },
+        },
+        physicalRooms: {
+          orderBy: [{ floor: "asc" }, { number: "asc" }, { name: "asc" }],
+        },
       },
     });
 
-    if (!room) {
+    if (!room || room.deletedAt) {
       return NextResponse.json({ error: "Room not found" }, { status: 404 });
     }
 
-    return NextResponse.json(room);
+    return NextResponse.json({
+      ...room,
+      tenants: room.tenants.map(maskTenant),
+    });
   } catch (error) {
     console.error("Error fetching room:", error);
     return NextResponse.json(
@@ -35,11 +50,18 @@ export async function GET(
 }
 
 // PATCH /api/rooms/[id] - Update a room
+// Body: any of { name, floor, number, capacity, type, rentAmount, periodFrom, periodTo }
+// A new rent is charged from the first month of the period that hasn't
+// started yet, and a new period from its own start. The months before are
+// kept in the room's period history at the rent they were charged.
 export async function PATCH(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize("rooms:update");
+    if (auth.error) return auth.error;
+
     const roomId = parseInt((await params).id);
 
     if (isNaN(roomId)) {
@@ -49,16 +71,13 @@ export async function PATCH(
     const body = await req.json();
     const { rentAmount, periodFrom, periodTo } = body;
 
-    // Validate the required fields
-    if (rentAmount !== undefined && (isNaN(rentAmount) || rentAmount < 0)) {
-      return NextResponse.json(
-        { error: "Rent amount must be a valid positive number" },
-        { status: 400 }
-      );
+    const validationError = validateRoomInput(body, { partial: true });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
     }
 
     // Process date values if provided
-    let periodFromDate, periodToDate;
+    let periodFromDate: Date | undefined, periodToDate: Date | undefined;
 
     if (periodFrom) {
       periodFromDate = new Date(periodFrom);
@@ -79,60 +98,156 @@ export async function PATCH(
         );
       }
     } else if (periodFrom && !periodTo) {
-      // If periodFrom is provided but not periodTo, calculate periodTo as 11 months later
-      periodToDate = new Date(periodFromDate!);
-      periodToDate.setMonth(periodToDate.getMonth() + 11);
+      // If periodFrom is provided but not periodTo, the period runs for one lease term
+      periodToDate = addMonths(periodFromDate!, LEASE_TERM_MONTHS);
     }
 
     // Check if the room exists
     const existingRoom = await prisma.room.findUnique({
       where: { id: roomId },
+      include: { physicalRooms: true },
     });
 
-    if (!existingRoom) {
+    if (!existingRoom || existingRoom.deletedAt || existingRoom.retiredAt) {
       return NextResponse.json({ error: "Room not found" }, { status: 404 });
     }
 
-    // Update the room using raw SQL to ensure proper field mapping
-    const updateFields = [];
-    const updateValues = [];
-
-    if (rentAmount !== undefined) {
-      updateFields.push('"rent_amount" = $1');
-      updateValues.push(rentAmount);
+    // Only owners can change the rent
+    if (
+      rentAmount !== undefined &&
+      Number(rentAmount) !== existingRoom.rentAmount &&
+      !can(auth.user.role, "rooms:setRent")
+    ) {
+      return NextResponse.json(
+        { error: "Only the owner can change the rent amount" },
+        { status: 403 }
+      );
     }
 
-    if (periodFromDate) {
-      updateFields.push('"period_from" = $' + (updateValues.length + 1));
-      updateValues.push(periodFromDate);
+    // A room can't be given fewer beds than it has tenants
+    if (body.capacity !== undefined) {
+      const tenantCount = await prisma.tenant.count({
+        where: { roomId, status: "ACTIVE", deletedAt: null },
+      });
+      if (Number(body.capacity) < tenantCount) {
+        return NextResponse.json(
+          {
+            error: `Room ${existingRoom.name} has ${tenantCount} tenants, more than ${Number(body.capacity)} bed(s). Move tenants out first.`,
+          },
+          { status: 400 }
+        );
+      }
     }
 
-    if (periodToDate) {
-      updateFields.push('"period_to" = $' + (updateValues.length + 1));
-      updateValues.push(periodToDate);
+    // Renaming can't take the name of another room, including the rooms in
+    // the trash
+    const name = body.name !== undefined ? String(body.name).trim() : undefined;
+    if (name !== undefined && name !== existingRoom.name) {
+      const sameName = await prisma.room.findFirst({
+        where: {
+          name: { equals: name, mode: "insensitive" },
+          id: { not: roomId },
+        },
+      });
+      if (sameName) {
+        return NextResponse.json(
+          {
+            error: sameName.deletedAt
+              ? `Room ${sameName.name} is in the trash under this name`
+              : `Room ${sameName.name} already exists`,
+          },
+          { status: 409 }
+        );
+      }
     }
 
-    if (updateFields.length > 0) {
-      const updateQuery = `
-        UPDATE "rooms" 
-        SET ${updateFields.join(", ")} 
-        WHERE "id" = $${updateValues.length + 1}
-      `;
-
-      try {
-        await prisma.$executeRawUnsafe(updateQuery, ...updateValues, roomId);
-      } catch (updateError) {
-        console.error("Error in raw SQL update:", updateError);
+    // A room that is a single physical room keeps its name, floor and number
+    // in step with it
+    const physicalRoom =
+      existingRoom.physicalRooms.length === 1
+        ? existingRoom.physicalRooms[0]
+        : null;
+    if (physicalRoom && name !== undefined && name !== physicalRoom.name) {
+      const samePhysicalName = await prisma.physicalRoom.findFirst({
+        where: {
+          name: { equals: name, mode: "insensitive" },
+          id: { not: physicalRoom.id },
+        },
+        include: { unit: true },
+      });
+      if (samePhysicalName) {
         return NextResponse.json(
-          { error: "Failed to update room" },
-          { status: 500 }
+          {
+            error: `${samePhysicalName.name} is already part of room ${samePhysicalName.unit.name}`,
+          },
+          { status: 409 }
         );
       }
     }
 
-    // Fetch the updated room to return
-    const room = await prisma.room.findUnique({
-      where: { id: roomId },
+    let newPeriodFrom = periodFromDate;
+    if (
+      !newPeriodFrom &&
+      rentAmount !== undefined &&
+      Number(rentAmount) !== existingRoom.rentAmount
+    ) {
+      const nextRentDate = getNextRentDate(existingRoom.periodFrom, new Date());
+      newPeriodFrom =
+        nextRentDate < existingRoom.periodTo
+          ? nextRentDate
+          : existingRoom.periodTo;
+    }
+
+    const room = await prisma.$transaction(async (tx) => {
+      if (newPeriodFrom) {
+        await archiveCurrentPeriod(tx, existingRoom, newPeriodFrom);
+      }
+
+      const room = await tx.room.update({
+        where: { id: roomId },
+        data: {
+          name,
+          floor: body.floor !== undefined ? Number(body.floor) : undefined,
+          number: body.number !== undefined ? Number(body.number) : undefined,
+          capacity:
+            body.capacity !== undefined ? Number(body.capacity) : undefined,
+          type: body.type !== undefined ? (body.type as RoomType) : undefined,
+          rentAmount: rentAmount !== undefined ? Number(rentAmount) : undefined,
+          periodFrom: newPeriodFrom,
+          periodTo: periodToDate,
+          physicalRooms: physicalRoom
+            ? {
+                update: {
+                  where: { id: physicalRoom.id },
+                  data: {
+                    name,
+                    floor:
+                      body.floor !== undefined ? Number(body.floor) : undefined,
+                    number:
+                      body.number !== undefined
+                        ? Number(body.number)
+                        : undefined,
+                  },
+                },
+              }
+            : undefined,
+        },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "UPDATE",
+          entity: "Room",
+          entityId: roomId,
+          before: existingRoom,
+          after: room,
+          roomId,
+        },
+        tx
+      );
+
+      return room;
     });
 
     return NextResponse.json(room);
@@ -145,12 +260,15 @@ export async function PATCH(
   }
 }
 
-// DELETE /api/rooms/[id] - Delete a room
+// DELETE /api/rooms/[id] - Move a room to the trash
 export async function DELETE(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize("rooms:delete");
+    if (auth.error) return auth.error;
+
     const roomId = parseInt((await params).id);
 
     if (isNaN(roomId)) {
@@ -160,10 +278,22 @@ export async function DELETE(
     // Check if the room exists
     const existingRoom = await prisma.room.findUnique({
       where: { id: roomId },
-      include: { tenants: true },
+      include: {
+        tenants: {
+          where: { status: "ACTIVE", deletedAt: null },
+        },
+        _count: {
+          select: {
+            tenants: { where: { deletedAt: null } },
+            transfersFrom: true,
+            payments: true,
+            deposits: true,
+          },
+        },
+      },
     });
 
-    if (!existingRoom) {
+    if (!existingRoom || existingRoom.deletedAt) {
       return NextResponse.json({ error: "Room not found" }, { status: 404 });
     }
 
@@ -175,12 +305,53 @@ export async function DELETE(
       );
     }
 
-    // Delete the room
-    await prisma.room.delete({
-      where: { id: roomId },
+    // Keep rooms that have a tenancy or payment history, so that a room in
+    // the trash can always be purged. Tenants in the trash are purged before
+    // their room.
+    if (
+      existingRoom._count.tenants > 0 ||
+      existingRoom._count.transfersFrom > 0
+    ) {
+      return NextResponse.json(
+        { error: "Cannot delete room with past tenants" },
+        { status: 400 }
+      );
+    }
+
+    if (existingRoom._count.payments > 0) {
+      return NextResponse.json(
+        { error: "Cannot delete room with recorded payments" },
+        { status: 400 }
+      );
+    }
+
+    if (existingRoom._count.deposits > 0) {
+      return NextResponse.json(
+        { error: "Cannot delete room with recorded deposits" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.room.update({
+        where: { id: roomId },
+        data: { deletedAt: new Date() },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "DELETE",
+          entity: "Room",
+          entityId: roomId,
+          before: existingRoom,
+          roomId,
+        },
+        tx
+      );
     });
 
-    return NextResponse.json({ message: "Room deleted successfully" });
+    return NextResponse.json({ message: "Room moved to the trash" });
   } catch (error) {
     console.error("Error deleting room:", error);
     return NextResponse.json(
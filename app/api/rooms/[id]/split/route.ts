@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { checkUnitName, openUnit, retireUnit } from "@/lib/units";
+import { countRoomTenantsForUpdate, roomClosedError } from "@/lib/tenants";
+
+// POST /api/rooms/[id]/split - Let each physical room of a vacant unit on
+// its own again
+// The unit is retired with its history. A physical room that was let on its
+// own before gets its old room back, the others get a new one.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("rooms:create");
+    if (auth.error) return auth.error;
+
+    const roomId = parseInt((await params).id);
+
+    if (isNaN(roomId)) {
+      return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+    }
+
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+      include: {
+        physicalRooms: true,
+        _count: {
+          select: { tenants: { where: { status: "ACTIVE", deletedAt: null } } },
+        },
+      },
+    });
+
+    if (!room || room.deletedAt || room.retiredAt) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    if (room.physicalRooms.length < 2) {
+      return NextResponse.json(
+        { error: `Room ${room.name} is a single physical room` },
+        { status: 400 }
+      );
+    }
+
+    if (room._count.tenants > 0) {
+      return NextResponse.json(
+        { error: `Move the tenants out of ${room.name} before splitting it` },
+        { status: 400 }
+      );
+    }
+
+    for (const physicalRoom of room.physicalRooms) {
+      const nameError = await checkUnitName([physicalRoom]);
+      if (nameError) {
+        return NextResponse.json({ error: nameError }, { status: 409 });
+      }
+    }
+
+    // New rooms share the unit's beds and rent until they are set
+    const count = room.physicalRooms.length;
+    const split = await prisma.$transaction(async (tx) => {
+      // Check again with the unit locked that no tenant has moved in since
+      // it was read
+      const tenantCount = await countRoomTenantsForUpdate(tx, room.id);
+      if (tenantCount === null) {
+        return { error: roomClosedError(room) };
+      }
+      if (tenantCount > 0) {
+        return {
+          error: `Move the tenants out of ${room.name} before splitting it`,
+        };
+      }
+
+      await retireUnit(tx, auth.user, room.id);
+
+      const units = [];
+      for (const physicalRoom of room.physicalRooms) {
+        units.push(
+          await openUnit(tx, auth.user, [physicalRoom], {
+            capacity: Math.max(1, Math.floor(room.capacity / count)),
+            rentAmount: Math.round(room.rentAmount / count),
+            type: room.type,
+          })
+        );
+      }
+      return { units };
+    });
+
+    if ("error" in split) {
+      return NextResponse.json({ error: split.error }, { status: 409 });
+    }
+
+    return NextResponse.json(split.units, { status: 201 });
+  } catch (error) {
+    console.error("Error splitting room:", error);
+    return NextResponse.json(
+      { error: "Failed to split room" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { maskTenant } from "@/lib/aadhar";
+import { getStays } from "@/lib/stays";
+
+// GET /api/rooms/[id]/tenants/past - Get the former tenants of a specific room
+// with when they moved in and out, and the room they moved to if they were
+// transferred
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const roomId = parseInt((await params).id);
+
+    if (isNaN(roomId)) {
+      return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+    }
+
+    // Tenants who moved out of the room, and those who moved to another room
+    const tenants = await prisma.tenant.findMany({
+      where: {
+        deletedAt: null,
+        OR: [
+          { roomId: roomId, status: "ARCHIVED" },
+          {
+            roomId: { not: roomId },
+            transfers: { some: { fromRoomId: roomId } },
+          },
+        ],
+      },
+      include: {
+        transfers: { include: { toRoom: { select: { name: true } } } },
+      },
+    });
+
+    // Each tenant is listed with their latest stay in the room
+    const pastTenants = tenants.map(({ transfers, ...tenant }) => {
+      const stays = getStays(tenant, transfers);
+      const index = stays.findLastIndex((stay) => stay.roomId === roomId);
+      const next = stays[index + 1];
+      return {
+        ...tenant,
+        movedIn: stays[index].movedIn,
+        checkoutDate: stays[index].movedOut,
+        transferredTo: next
+          ? transfers.find((transfer) => transfer.toRoomId === next.roomId)!
+              .toRoom.name
+          : null,
+      };
+    });
+
+    pastTenants.sort(
+      (a, b) =>
+        (b.checkoutDate?.getTime() ?? 0) - (a.checkoutDate?.getTime() ?? 0) ||
+        a.name.localeCompare(b.name)
+    );
+
+    return NextResponse.json(pastTenants.map(maskTenant));
+  } catch (error) {
+    console.error("Error fetching past tenants:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch past tenants" },
+      { status: 500 }
+    );
+  }
+}
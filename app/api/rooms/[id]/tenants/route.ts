@@ -1,7 +1,12 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { maskTenant } from "@/lib/aadhar";
+import { getDepositHeld } from "@/lib/tenants";
+import { endPeriodIfVacated } from "@/lib/dues";
+import { recordAudit } from "@/lib/audit";
 
-// GET /api/rooms/[id]/tenants - Get all tenants for a specific room
+// GET /api/rooms/[id]/tenants - Get the current tenants of a specific room
 export async function GET(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -16,13 +21,15 @@ export async function GET(
     const tenants = await prisma.tenant.findMany({
       where: {
         roomId: roomId,
+        status: "ACTIVE",
+        deletedAt: null,
       },
       orderBy: {
         name: "asc",
       },
     });
 
-    return NextResponse.json(tenants);
+    return NextResponse.json(tenants.map(maskTenant));
   } catch (error) {
     console.error("Error fetching tenants:", error);
     return NextResponse.json(
@@ -32,37 +39,86 @@ export async function GET(
   }
 }
 
-// DELETE /api/rooms/[id]/tenants - Delete all tenants for a specific room (empty the room)
+// DELETE /api/rooms/[id]/tenants - Move all current tenants out of a specific room (empty the room)
+// The tenants are archived with a checkout date so the room's history is kept
 export async function DELETE(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize("tenants:write");
+    if (auth.error) return auth.error;
+
     const roomId = parseInt((await params).id);
 
     if (isNaN(roomId)) {
       return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
     }
 
+    // Use the given checkout date, or today if none is given
+    const checkoutParam = new URL(req.url).searchParams.get("checkoutDate");
+    const checkoutDate = checkoutParam ? new Date(checkoutParam) : new Date();
+
+    if (isNaN(checkoutDate.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid date format for checkoutDate" },
+        { status: 400 }
+      );
+    }
+
     // First, check if the room exists
     const room = await prisma.room.findUnique({
       where: { id: roomId },
     });
 
-    if (!room) {
+    if (!room || room.deletedAt) {
       return NextResponse.json({ error: "Room not found" }, { status: 404 });
     }
 
-    // Delete all tenants for the room
-    const result = await prisma.tenant.deleteMany({
-      where: {
-        roomId: roomId,
-      },
+    // Archive all current tenants of the room
+    const { movedOut, depositHeld } = await prisma.$transaction(async (tx) => {
+      const tenants = await tx.tenant.findMany({
+        where: {
+          roomId: roomId,
+          status: "ACTIVE",
+        },
+      });
+      const checkout = { status: "ARCHIVED" as const, checkoutDate };
+
+      await tx.tenant.updateMany({
+        where: { id: { in: tenants.map((tenant) => tenant.id) } },
+        data: checkout,
+      });
+      for (const tenant of tenants) {
+        await recordAudit(
+          {
+            actor: auth.user,
+            action: "UPDATE",
+            entity: "Tenant",
+            entityId: tenant.id,
+            before: tenant,
+            after: { ...tenant, ...checkout },
+            roomId,
+            tenantId: tenant.id,
+          },
+          tx
+        );
+      }
+
+      await endPeriodIfVacated(tx, auth.user, roomId, checkoutDate);
+
+      // Deposit money still held has to be settled with the tenants leaving
+      const tenantIds = tenants.map((tenant) => tenant.id);
+      return {
+        movedOut: tenants.length,
+        depositHeld: await getDepositHeld(tx, tenantIds),
+      };
     });
 
     return NextResponse.json({
       message: `Room emptied successfully`,
-      count: result.count,
+      count: movedOut,
+      depositHeld,
     });
   } catch (error) {
     console.error("Error emptying room:", error);
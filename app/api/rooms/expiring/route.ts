@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { EXPIRING_SOON_DAYS } from "@/lib/rooms";
+
+// GET /api/rooms/expiring - Get occupied rooms whose period ends within ?days=
+// (default EXPIRING_SOON_DAYS), including rooms whose period has already ended
+export async function GET(request: NextRequest) {
+  try {
+    const daysParam = request.nextUrl.searchParams.get("days");
+    const days = daysParam ? parseInt(daysParam) : EXPIRING_SOON_DAYS;
+
+    if (isNaN(days) || days < 0) {
+      return NextResponse.json(
+        { error: "Days must be a valid positive number" },
+        { status: 400 }
+      );
+    }
+
+    const until = new Date();
+    until.setDate(until.getDate() + days);
+
+    const rooms = await prisma.room.findMany({
+      where: {
+        periodTo: { lte: until },
+        deletedAt: null,
+        tenants: { some: { status: "ACTIVE", deletedAt: null } },
+      },
+      include: {
+        tenants: {
+          where: { status: "ACTIVE", deletedAt: null },
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { periodTo: "asc" },
+    });
+
+    return NextResponse.json(rooms);
+  } catch (error) {
+    console.error("Error fetching expiring rooms:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch expiring rooms" },
+      { status: 500 }
+    );
+  }
+}
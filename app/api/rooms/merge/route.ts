@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { checkUnitName, openUnit, retireUnit } from "@/lib/units";
+import { countRoomTenantsForUpdate, roomClosedError } from "@/lib/tenants";
+
+// POST /api/rooms/merge - Let vacant rooms together as one unit
+// Body: { roomIds: [...] }
+// The rooms are retired with their history, and their physical rooms are let
+// as a unit named after them, e.g. "G1 + G2 + G3".
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("rooms:create");
+    if (auth.error) return auth.error;
+
+    const body = await request.json();
+    const roomIds: number[] = Array.isArray(body.roomIds)
+      ? [...new Set<number>(body.roomIds.map(Number))]
+      : [];
+
+    if (roomIds.length < 2 || roomIds.some((id) => !Number.isInteger(id))) {
+      return NextResponse.json(
+        { error: "Choose at least two rooms to merge" },
+        { status: 400 }
+      );
+    }
+
+    const rooms = await prisma.room.findMany({
+      where: { id: { in: roomIds }, deletedAt: null, retiredAt: null },
+      include: {
+        physicalRooms: true,
+        _count: {
+          select: { tenants: { where: { status: "ACTIVE", deletedAt: null } } },
+        },
+      },
+    });
+
+    if (rooms.length !== roomIds.length) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    // Tenants stay with the room they rented, so only vacant rooms are merged
+    const occupied = rooms.filter((room) => room._count.tenants > 0);
+    if (occupied.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Move the tenants out of ${occupied
+            .map((room) => room.name)
+            .join(", ")} before merging`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const physicalRooms = rooms.flatMap((room) => room.physicalRooms);
+    const nameError = await checkUnitName(physicalRooms);
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 409 });
+    }
+
+    const merged = await prisma.$transaction(async (tx) => {
+      // Check again with the rooms locked, in order of their ID, that no
+      // tenant has moved in since they were read
+      const lockOrder = [...rooms].sort((a, b) => a.id - b.id);
+      for (const room of lockOrder) {
+        const tenantCount = await countRoomTenantsForUpdate(tx, room.id);
+        if (tenantCount === null) {
+          return { error: roomClosedError(room) };
+        }
+        if (tenantCount > 0) {
+          return {
+            error: `Move the tenants out of ${room.name} before merging`,
+          };
+        }
+      }
+
+      for (const room of rooms) {
+        await retireUnit(tx, auth.user, room.id);
+      }
+
+      return {
+        unit: await openUnit(tx, auth.user, physicalRooms, {
+          capacity: rooms.reduce((sum, room) => sum + room.capacity, 0),
+          rentAmount: rooms.reduce((sum, room) => sum + room.rentAmount, 0),
+          type: rooms[0].type,
+        }),
+      };
+    });
+
+    if ("error" in merged) {
+      return NextResponse.json({ error: merged.error }, { status: 409 });
+    }
+
+    return NextResponse.json(merged.unit, { status: 201 });
+  } catch (error) {
+    console.error("Error merging rooms:", error);
+    return NextResponse.json(
+      { error: "Failed to merge rooms" },
+      { status: 500 }
+    );
+  }
+}
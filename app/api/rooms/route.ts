@@ -1,15 +1,48 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { maskTenant } from "@/lib/aadhar";
+import { RoomType, validateRoomInput } from "@/lib/rooms";
+import { recordAudit } from "@/lib/audit";
+
+// Rooms are listed by floor, then by room number, with the physical rooms
+// each of them covers
+const ROOM_ORDER = [
+  { floor: "asc" as const },
+  { number: "asc" as const },
+  { name: "asc" as const },
+];
 
 // GET /api/rooms - Get all rooms
-export async function GET() {
+// Pass ?include=tenants to also get the current tenants of each room
+export async function GET(request: NextRequest) {
   try {
+    const includeTenants =
+      request.nextUrl.searchParams.get("include") === "tenants";
+
+    if (!includeTenants) {
+      const rooms = await prisma.room.findMany({
+        where: { deletedAt: null, retiredAt: null },
+        include: { physicalRooms: { orderBy: ROOM_ORDER } },
+        orderBy: ROOM_ORDER,
+      });
+      return NextResponse.json(rooms);
+    }
+
     const rooms = await prisma.room.findMany({
-      orderBy: {
-        name: "asc",
+      where: { deletedAt: null, retiredAt: null },
+      include: {
+        tenants: {
+          where: { status: "ACTIVE", deletedAt: null },
+          orderBy: { name: "asc" },
+        },
+        physicalRooms: { orderBy: ROOM_ORDER },
       },
+      orderBy: ROOM_ORDER,
     });
-    return NextResponse.json(rooms);
+    return NextResponse.json(
+      rooms.map((room) => ({ ...room, tenants: room.tenants.map(maskTenant) }))
+    );
   } catch (error) {
     console.error("Error fetching rooms:", error);
     return NextResponse.json(
@@ -18,3 +51,93 @@ export async function GET() {
     );
   }
 }
+
+// POST /api/rooms - Create a room, let as a unit of one new physical room
+// Body: { name, floor, number, capacity, type, rentAmount? }
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("rooms:create");
+    if (auth.error) return auth.error;
+
+    const body = await request.json();
+
+    const validationError = validateRoomInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const name = String(body.name).trim();
+
+    // Room names are unique, including the rooms in the trash
+    const existing = await prisma.room.findFirst({
+      where: { name: { equals: name, mode: "insensitive" } },
+    });
+    if (existing) {
+      return NextResponse.json(
+        {
+          error: existing.deletedAt
+            ? `Room ${existing.name} is in the trash. Restore it instead.`
+            : `Room ${existing.name} already exists`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const physicalRoom = await prisma.physicalRoom.findFirst({
+      where: { name: { equals: name, mode: "insensitive" } },
+      include: { unit: true },
+    });
+    if (physicalRoom) {
+      return NextResponse.json(
+        {
+          error: `${physicalRoom.name} is already part of room ${physicalRoom.unit.name}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const room = await prisma.$transaction(async (tx) => {
+      const room = await tx.room.create({
+        data: {
+          name,
+          floor: Number(body.floor),
+          number: Number(body.number),
+          capacity: Number(body.capacity),
+          type: body.type as RoomType,
+          rentAmount:
+            body.rentAmount !== undefined ? Number(body.rentAmount) : undefined,
+          physicalRooms: {
+            create: {
+              name,
+              floor: Number(body.floor),
+              number: Number(body.number),
+            },
+          },
+        },
+        include: { physicalRooms: true },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "CREATE",
+          entity: "Room",
+          entityId: room.id,
+          after: room,
+          roomId: room.id,
+        },
+        tx
+      );
+
+      return room;
+    });
+
+    return NextResponse.json(room, { status: 201 });
+  } catch (error) {
+    console.error("Error creating room:", error);
+    return NextResponse.json(
+      { error: "Failed to create room" },
+      { status: 500 }
+    );
+  }
+}
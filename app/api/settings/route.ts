@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { ElectricitySplit, LateFeeType } from "@prisma/client";
+import { getLodgeSettings } from "@/lib/late-fees";
+import { LATE_FEE_RULE_FIELDS, validateSettingsInput } from "@/lib/settings";
+import { recordAudit } from "@/lib/audit";
+
+// GET /api/settings - Get the lodge settings for rent collection
+export async function GET() {
+  try {
+    return NextResponse.json(await getLodgeSettings());
+  } catch (error) {
+    console.error("Error fetching settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/settings - Update the lodge settings
+// Body: { dueDay, graceDays, lateFeeType, lateFeeAmount, lateFeeCap,
+//         electricityRate, electricitySplit }
+export async function PUT(req: Request) {
+  try {
+    const auth = await authorize("settings:manage");
+    if (auth.error) return auth.error;
+
+    const body = await req.json();
+
+    const validationError = validateSettingsInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const data = {
+      dueDay: body.dueDay !== undefined ? Number(body.dueDay) : undefined,
+      graceDays:
+        body.graceDays !== undefined ? Number(body.graceDays) : undefined,
+      lateFeeType: body.lateFeeType as LateFeeType | undefined,
+      lateFeeAmount:
+        body.lateFeeAmount !== undefined
+          ? Number(body.lateFeeAmount)
+          : undefined,
+      lateFeeCap:
+        body.lateFeeCap !== undefined
+          ? body.lateFeeCap === null || body.lateFeeCap === ""
+            ? null
+            : Number(body.lateFeeCap)
+          : undefined,
+      electricityRate:
+        body.electricityRate !== undefined
+          ? Number(body.electricityRate)
+          : undefined,
+      electricitySplit: body.electricitySplit as ElectricitySplit | undefined,
+    };
+
+    const existingSettings = await getLodgeSettings();
+
+    // Only a change to the late fee rules resets which paid months can still
+    // be charged a late fee, not e.g. a new electricity rate
+    const rulesChanged = LATE_FEE_RULE_FIELDS.some(
+      (field) =>
+        data[field] !== undefined && data[field] !== existingSettings[field]
+    );
+    const lateFeeRulesChangedAt = rulesChanged ? new Date() : undefined;
+
+    const settings = await prisma.$transaction(async (tx) => {
+      const settings = await tx.lodgeSettings.upsert({
+        where: { id: 1 },
+        create: { id: 1, ...data },
+        update: { ...data, lateFeeRulesChangedAt },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "UPDATE",
+          entity: "LodgeSettings",
+          entityId: settings.id,
+          before: existingSettings,
+          after: settings,
+        },
+        tx
+      );
+
+      return settings;
+    });
+
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error("Error updating settings:", error);
+    return NextResponse.json(
+      { error: "Failed to update settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { maskTenant } from "@/lib/aadhar";
+import { endPeriodIfVacated } from "@/lib/dues";
+import { recordAudit } from "@/lib/audit";
+import { getDepositHeld } from "@/lib/tenants";
+
+// POST /api/tenants/[id]/checkout - Move a tenant out of their room
+// The tenant is archived with a checkout date instead of being deleted. The
+// response includes depositHeld, their deposit money still to be settled.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("tenants:write");
+    if (auth.error) return auth.error;
+
+    const tenantId = parseInt((await params).id);
+
+    if (isNaN(tenantId)) {
+      return NextResponse.json({ error: "Invalid tenant ID" }, { status: 400 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const checkoutDate = body.checkoutDate
+      ? new Date(body.checkoutDate)
+      : new Date();
+
+    if (isNaN(checkoutDate.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid date format for checkoutDate" },
+        { status: 400 }
+      );
+    }
+
+    // Check if tenant exists
+    const existingTenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+    });
+
+    if (!existingTenant || existingTenant.deletedAt) {
+      return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+    }
+
+    if (existingTenant.status === "ARCHIVED") {
+      return NextResponse.json(
+        { error: "Tenant has already moved out" },
+        { status: 400 }
+      );
+    }
+
+    const { tenant, depositHeld } = await prisma.$transaction(async (tx) => {
+      const tenant = await tx.tenant.update({
+        where: { id: tenantId },
+        data: {
+          status: "ARCHIVED",
+          checkoutDate,
+        },
+        include: {
+          room: true,
+        },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "UPDATE",
+          entity: "Tenant",
+          entityId: tenantId,
+          before: existingTenant,
+          after: tenant,
+          roomId: tenant.roomId,
+          tenantId,
+        },
+        tx
+      );
+
+      // The last tenant to leave ends the room's rent
+      await endPeriodIfVacated(tx, auth.user, tenant.roomId, checkoutDate);
+
+      return { tenant, depositHeld: await getDepositHeld(tx, [tenantId]) };
+    });
+
+    return NextResponse.json({ ...maskTenant(tenant), depositHeld });
+  } catch (error) {
+    console.error("Error checking out tenant:", error);
+    return NextResponse.json(
+      { error: "Failed to check out tenant" },
+      { status: 500 }
+    );
+  }
+}
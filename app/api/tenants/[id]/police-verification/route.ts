@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { getLodgeDetails } from "@/lib/lodge";
+import { pdfResponse } from "@/lib/pdf";
+import { createPoliceVerificationPdf } from "@/lib/police-verification";
+
+// GET /api/tenants/[id]/police-verification - Police verification form of a tenant as a PDF
+// The form carries the full Aadhar number, so it needs the same permission as revealing it
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("tenants:revealAadhar");
+    if (auth.error) return auth.error;
+
+    const tenantId = parseInt((await params).id);
+
+    if (isNaN(tenantId)) {
+      return NextResponse.json({ error: "Invalid tenant ID" }, { status: 400 });
+    }
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      include: {
+        room: {
+          include: {
+            tenants: {
+              where: { status: "ACTIVE", deletedAt: null },
+              select: { name: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!tenant || tenant.deletedAt) {
+      return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+    }
+
+    const pdf = await createPoliceVerificationPdf(
+      [tenant],
+      {
+        ...tenant.room,
+        occupants: tenant.room.tenants.map((occupant) => occupant.name),
+      },
+      getLodgeDetails()
+    );
+
+    return pdfResponse(pdf, `police-verification-${tenant.name}.pdf`);
+  } catch (error) {
+    console.error("Error creating police verification form:", error);
+    return NextResponse.json(
+      { error: "Failed to create police verification form" },
+      { status: 500 }
+    );
+  }
+}
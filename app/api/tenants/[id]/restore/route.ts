@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { maskTenant } from "@/lib/aadhar";
+import {
+  countRoomTenantsForUpdate,
+  findCurrentTenantByAadhar,
+  roomClosedError,
+} from "@/lib/tenants";
+import { formatOccupancy } from "@/lib/rooms";
+import { recordAudit } from "@/lib/audit";
+
+// POST /api/tenants/[id]/restore - Take a tenant back out of the trash
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("tenants:delete");
+    if (auth.error) return auth.error;
+
+    const tenantId = parseInt((await params).id);
+
+    if (isNaN(tenantId)) {
+      return NextResponse.json({ error: "Invalid tenant ID" }, { status: 400 });
+    }
+
+    const existingTenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      include: { room: true },
+    });
+
+    if (!existingTenant || !existingTenant.deletedAt) {
+      return NextResponse.json(
+        { error: "Tenant is not in the trash" },
+        { status: 404 }
+      );
+    }
+
+    if (existingTenant.room.deletedAt) {
+      return NextResponse.json(
+        {
+          error: `Room ${existingTenant.room.name} is in the trash. Restore the room first.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (existingTenant.room.retiredAt && existingTenant.status === "ACTIVE") {
+      return NextResponse.json(
+        {
+          error: `Room ${existingTenant.room.name} has been merged or split into other rooms`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // The same person may have been added again while this tenant was in
+    // the trash
+    if (existingTenant.status === "ACTIVE") {
+      const duplicate = await findCurrentTenantByAadhar(
+        existingTenant.aadharNumber,
+        { tenantId }
+      );
+      if (duplicate) {
+        return NextResponse.json(
+          {
+            error: `${duplicate.name} in room ${duplicate.room.name} already has this Aadhar number`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const restored = await prisma.$transaction(async (tx) => {
+      // A current tenant needs their bed back, and the room may have filled
+      // up while they were in the trash
+      if (existingTenant.status === "ACTIVE") {
+        const { room } = existingTenant;
+        const tenantCount = await countRoomTenantsForUpdate(tx, room.id);
+        if (tenantCount === null) {
+          return { error: roomClosedError(room) };
+        }
+        if (tenantCount >= room.capacity) {
+          return {
+            error: `Room ${room.name} is full (${formatOccupancy(tenantCount, room.capacity)})`,
+          };
+        }
+      }
+
+      const tenant = await tx.tenant.update({
+        where: { id: tenantId },
+        data: { deletedAt: null },
+        include: { room: true },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "UPDATE",
+          entity: "Tenant",
+          entityId: tenantId,
+          before: existingTenant,
+          after: tenant,
+          roomId: tenant.roomId,
+          tenantId,
+        },
+        tx
+      );
+
+      return { tenant };
+    });
+
+    if ("error" in restored) {
+      return NextResponse.json({ error: restored.error }, { status: 409 });
+    }
+
+    return NextResponse.json(maskTenant(restored.tenant));
+  } catch (error) {
+    console.error("Error restoring tenant:", error);
+    return NextResponse.json(
+      { error: "Failed to restore tenant" },
+      { status: 500 }
+    );
+  }
+}
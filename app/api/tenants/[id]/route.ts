@@ -1,8 +1,16 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
 import { Prisma } from "@prisma/client";
-
-// GET /api/tenants/[id] - Get a specific tenant
+import { validateTenant } from "@/lib/tenant-schema";
+import { maskTenant } from "@/lib/aadhar";
+import { findCurrentTenantByAadhar } from "@/lib/tenants";
+import { getStays } from "@/lib/stays";
+import { recordAudit } from "@/lib/audit";
+import { endPeriodIfVacated } from "@/lib/dues";
+
+// GET /api/tenants/[id] - Get a specific tenant with the rooms they have
+// stayed in
 export async function GET(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -18,14 +26,32 @@ export async function GET(
       where: { id: tenantId },
       include: {
         room: true,
+        transfers: {
+          include: {
+            fromRoom: { select: { name: true } },
+            toRoom: { select: { name: true } },
+          },
+        },
       },
     });
 
-    if (!tenant) {
+    if (!tenant || tenant.deletedAt) {
       return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
     }
 
-    return NextResponse.json(tenant);
+    const roomNames = new Map<number, string>([
+      [tenant.roomId, tenant.room.name],
+    ]);
+    for (const transfer of tenant.transfers) {
+      roomNames.set(transfer.fromRoomId, transfer.fromRoom.name);
+      roomNames.set(transfer.toRoomId, transfer.toRoom.name);
+    }
+    const stays = getStays(tenant, tenant.transfers).map((stay) => ({
+      ...stay,
+      roomName: roomNames.get(stay.roomId),
+    }));
+
+    return NextResponse.json({ ...maskTenant(tenant), stays });
   } catch (error) {
     console.error("Error fetching tenant:", error);
     return NextResponse.json(
@@ -41,6 +67,9 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize("tenants:write");
+    if (auth.error) return auth.error;
+
     const tenantId = parseInt((await params).id);
 
     if (isNaN(tenantId)) {
@@ -49,61 +78,10 @@ export async function PATCH(
 
     const body = await req.json();
 
-    // Validate required fields
-    const requiredFields = [
-      "name",
-      "fatherName",
-      "villageName",
-      "tehsil",
-      "policeStation",
-      "district",
-      "pincode",
-      "state",
-      "phoneNumber",
-      "fatherPhoneNumber",
-      "aadharNumber",
-    ];
-
-    for (const field of requiredFields) {
-      if (!body[field]) {
-        return NextResponse.json(
-          {
-            error: `Field '${field}' is required`,
-          },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Validate phone numbers (10 digits)
-    const phoneNumberFields = ["phoneNumber", "fatherPhoneNumber"];
-    for (const field of phoneNumberFields) {
-      if (body[field] && !/^\d{10}$/.test(body[field])) {
-        return NextResponse.json(
-          {
-            error: `${field} must be 10 digits`,
-          },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Validate aadhar number (12 digits)
-    if (body.aadharNumber && !/^\d{12}$/.test(body.aadharNumber)) {
-      return NextResponse.json(
-        {
-          error: "Aadhar number must be 12 digits",
-        },
-        { status: 400 }
-      );
-    }
-
-    // Validate pincode (6 digits)
-    if (body.pincode && !/^\d{6}$/.test(body.pincode)) {
+    const result = validateTenant(body);
+    if (!result.success) {
       return NextResponse.json(
-        {
-          error: "Pincode must be 6 digits",
-        },
+        { error: "Invalid tenant details", fieldErrors: result.errors },
         { status: 400 }
       );
     }
@@ -113,33 +91,57 @@ export async function PATCH(
       where: { id: tenantId },
     });
 
-    if (!existingTenant) {
+    if (!existingTenant || existingTenant.deletedAt) {
       return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
     }
 
+    // The same person can't be a current tenant twice
+    const duplicate = await findCurrentTenantByAadhar(
+      result.data.aadharNumber,
+      {
+        tenantId,
+      }
+    );
+    if (duplicate) {
+      return NextResponse.json(
+        {
+          error: "Invalid tenant details",
+          fieldErrors: {
+            aadharNumber: `${duplicate.name} in room ${duplicate.room.name} already has this Aadhar number`,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
     // Update the tenant
-    const updatedTenant = await prisma.tenant.update({
-      where: { id: tenantId },
-      data: {
-        name: body.name,
-        fatherName: body.fatherName,
-        villageName: body.villageName,
-        tehsil: body.tehsil,
-        policeStation: body.policeStation,
-        district: body.district,
-        pincode: body.pincode,
-        state: body.state,
-        email: body.email,
-        aadharNumber: body.aadharNumber,
-        phoneNumber: body.phoneNumber,
-        fatherPhoneNumber: body.fatherPhoneNumber,
-      },
-      include: {
-        room: true,
-      },
+    const updatedTenant = await prisma.$transaction(async (tx) => {
+      const updatedTenant = await tx.tenant.update({
+        where: { id: tenantId },
+        data: result.data,
+        include: {
+          room: true,
+        },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "UPDATE",
+          entity: "Tenant",
+          entityId: tenantId,
+          before: existingTenant,
+          after: updatedTenant,
+          roomId: updatedTenant.roomId,
+          tenantId,
+        },
+        tx
+      );
+
+      return updatedTenant;
     });
 
-    return NextResponse.json(updatedTenant);
+    return NextResponse.json(maskTenant(updatedTenant));
   } catch (error) {
     console.error("Error updating tenant:", error);
 
@@ -159,12 +161,15 @@ export async function PATCH(
   }
 }
 
-// DELETE /api/tenants/[id] - Delete a tenant
+// DELETE /api/tenants/[id] - Move a tenant to the trash
 export async function DELETE(
   req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize("tenants:delete");
+    if (auth.error) return auth.error;
+
     const tenantId = parseInt((await params).id);
 
     if (isNaN(tenantId)) {
@@ -176,16 +181,41 @@ export async function DELETE(
       where: { id: tenantId },
     });
 
-    if (!existingTenant) {
+    if (!existingTenant || existingTenant.deletedAt) {
       return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
     }
 
-    // Delete the tenant
-    await prisma.tenant.delete({
-      where: { id: tenantId },
+    await prisma.$transaction(async (tx) => {
+      await tx.tenant.update({
+        where: { id: tenantId },
+        data: { deletedAt: new Date() },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "DELETE",
+          entity: "Tenant",
+          entityId: tenantId,
+          before: existingTenant,
+          roomId: existingTenant.roomId,
+          tenantId,
+        },
+        tx
+      );
+
+      // A room left without tenants stops charging rent
+      if (existingTenant.status === "ACTIVE") {
+        await endPeriodIfVacated(
+          tx,
+          auth.user,
+          existingTenant.roomId,
+          new Date()
+        );
+      }
     });
 
-    return NextResponse.json({ message: "Tenant deleted successfully" });
+    return NextResponse.json({ message: "Tenant moved to the trash" });
   } catch (error) {
     console.error("Error deleting tenant:", error);
     return NextResponse.json(
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+
+// GET /api/tenants/aadhar?ids=1,2,3 - Reveal the full Aadhar numbers of the given tenants
+// Every other tenant endpoint only returns the masked number
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize("tenants:revealAadhar");
+    if (auth.error) return auth.error;
+
+    const ids = (request.nextUrl.searchParams.get("ids") || "")
+      .split(",")
+      .filter((id) => id.trim() !== "")
+      .map((id) => parseInt(id));
+
+    if (ids.length === 0 || ids.some((id) => isNaN(id))) {
+      return NextResponse.json(
+        { error: "A comma separated list of tenant IDs is required" },
+        { status: 400 }
+      );
+    }
+
+    const tenants = await prisma.tenant.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, aadharNumber: true },
+    });
+
+    return NextResponse.json(tenants);
+  } catch (error) {
+    console.error("Error revealing Aadhar numbers:", error);
+    return NextResponse.json(
+      { error: "Failed to reveal Aadhar numbers" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { compareRooms } from "@/lib/rooms";
+import { maskAadharNumber } from "@/lib/aadhar";
+import { formatAadharNumber } from "@/lib/tenant-schema";
+import {
+  ALL_COLUMNS,
+  ROOM_COLUMNS,
+  RegistryColumn,
+  isRegistryColumn,
+} from "@/lib/registry";
+import { CellValue, toCsv, toXlsx } from "@/lib/spreadsheet";
+import { getTodayString } from "@/lib/utils";
+
+// GET /api/tenants/export - Download the tenant registry as CSV or Excel
+// Query: format=csv|xlsx, columns=name,phoneNumber,... (default: all columns),
+// aadhar=full to include full Aadhar numbers instead of masked ones.
+// Every tenant gets its own row, with the room's details repeated on each.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    const format = searchParams.get("format") || "csv";
+    if (format !== "csv" && format !== "xlsx") {
+      return NextResponse.json(
+        { error: "Format must be csv or xlsx" },
+        { status: 400 }
+      );
+    }
+
+    const columnsParam = searchParams.get("columns");
+    const requestedColumns = columnsParam
+      ? columnsParam.split(",").filter((column) => column !== "")
+      : Object.keys(ALL_COLUMNS);
+    const invalidColumn = requestedColumns.find(
+      (column) => !isRegistryColumn(column)
+    );
+    if (invalidColumn) {
+      return NextResponse.json(
+        { error: `Unknown column: ${invalidColumn}` },
+        { status: 400 }
+      );
+    }
+    const columns = requestedColumns as RegistryColumn[];
+
+    // Full Aadhar numbers need the same permission as revealing them
+    const showFullAadhar = searchParams.get("aadhar") === "full";
+    if (showFullAadhar) {
+      const auth = await authorize("tenants:revealAadhar");
+      if (auth.error) return auth.error;
+    }
+
+    const rooms = await prisma.room.findMany({
+      where: { deletedAt: null, retiredAt: null },
+      include: {
+        tenants: {
+          where: { status: "ACTIVE", deletedAt: null },
+          orderBy: { name: "asc" },
+        },
+      },
+    });
+    rooms.sort(compareRooms);
+
+    const headers = [
+      "Room No.",
+      ...columns.map((column) => ALL_COLUMNS[column]),
+    ];
+    const rows: CellValue[][] = [];
+
+    for (const room of rooms) {
+      // Empty rooms still get a row, with only the room's details filled in
+      const tenants = room.tenants.length > 0 ? room.tenants : [null];
+
+      for (const tenant of tenants) {
+        rows.push([
+          room.name,
+          ...columns.map((column): CellValue => {
+            if (ROOM_COLUMNS.includes(column)) {
+              return room[column as "rentAmount" | "periodFrom" | "periodTo"];
+            }
+            if (!tenant) return null;
+            if (column === "aadharNumber") {
+              return showFullAadhar
+                ? formatAadharNumber(tenant.aadharNumber)
+                : maskAadharNumber(tenant.aadharNumber);
+            }
+            return tenant[column as keyof typeof tenant] as CellValue;
+          }),
+        ]);
+      }
+    }
+
+    const fileName = `tenant-registry-${getTodayString()}.${format}`;
+
+    if (format === "xlsx") {
+      return new Response(await toXlsx("Tenant Registry", headers, rows), {
+        headers: {
+          "Content-Type":
+            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      });
+    }
+
+    return new Response(toCsv(headers, rows), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting tenants:", error);
+    return NextResponse.json(
+      { error: "Failed to export tenants" },
+      { status: 500 }
+    );
+  }
+}
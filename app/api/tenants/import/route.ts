@@ -0,0 +1,220 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { blindIndex } from "@/lib/encryption";
+import { maskAadharNumber } from "@/lib/aadhar";
+import { ImportMode, ImportRow, parseTenantImport } from "@/lib/tenant-import";
+import { checkCapacity, formatOccupancy } from "@/lib/rooms";
+import { countRoomTenantsForUpdate, roomClosedError } from "@/lib/tenants";
+import { recordAudit } from "@/lib/audit";
+
+// POST /api/tenants/import - Import tenants from a CSV file
+// Body: { csv, mode: "current" | "historical", dryRun }
+// With dryRun the rows are only checked and returned as a preview. Otherwise
+// all rows are created in one transaction, or none if any row has an error.
+// "current" adds the tenants to their rooms; "historical" adds former tenants
+// from the paper register to the rooms' past tenants.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize("tenants:write");
+    if (auth.error) return auth.error;
+
+    const body = await request.json();
+    const mode: ImportMode =
+      body.mode === "historical" ? "historical" : "current";
+
+    if (typeof body.csv !== "string" || body.csv.trim() === "") {
+      return NextResponse.json(
+        { error: "A CSV file is required" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseTenantImport(body.csv, mode);
+    if (parsed.error !== null) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { rows } = parsed;
+
+    // Rooms are matched by name, ignoring case and surrounding spaces
+    const rooms = await prisma.room.findMany({
+      where: { deletedAt: null, retiredAt: null },
+      include: {
+        _count: {
+          select: { tenants: { where: { status: "ACTIVE", deletedAt: null } } },
+        },
+      },
+    });
+    const roomsByName = new Map(
+      rooms.map((room) => [room.name.trim().toLowerCase(), room])
+    );
+    const roomIds = rows.map(
+      (row) => roomsByName.get(row.roomName.toLowerCase())?.id ?? null
+    );
+    rows.forEach((row, index) => {
+      if (row.roomName && roomIds[index] === null) {
+        row.errors.push(`Room "${row.roomName}" does not exist`);
+      }
+    });
+
+    // Current tenants can't be imported twice, or while already staying in a
+    // room, and must fit in the beds their room has free
+    if (mode === "current") {
+      await checkDuplicateAadhar(rows);
+
+      const occupancy = new Map(
+        rooms.map((room) => [room.id, room._count.tenants])
+      );
+      rows.forEach((row, index) => {
+        const room = rooms.find((room) => room.id === roomIds[index]);
+        if (!room) return;
+        const tenantCount = occupancy.get(room.id)! + 1;
+        if (tenantCount > room.capacity) {
+          row.errors.push(
+            `Room ${room.name} is full (${formatOccupancy(room.capacity, room.capacity)})`
+          );
+        } else {
+          occupancy.set(room.id, tenantCount);
+        }
+      });
+    }
+
+    const preview = rows.map((row) => ({
+      row: row.row,
+      roomName: row.roomName,
+      name: row.tenant?.name ?? "",
+      aadharNumber: row.tenant ? maskAadharNumber(row.tenant.aadharNumber) : "",
+      errors: row.errors,
+    }));
+    const errorCount = rows.filter((row) => row.errors.length > 0).length;
+
+    if (body.dryRun) {
+      return NextResponse.json({ rows: preview, errorCount });
+    }
+
+    if (errorCount > 0) {
+      return NextResponse.json(
+        {
+          error: `${errorCount} row(s) have errors. Nothing was imported.`,
+          rows: preview,
+          errorCount,
+        },
+        { status: 400 }
+      );
+    }
+
+    const imported = await prisma.$transaction(async (tx) => {
+      // Check the beds again with the rooms locked, since tenants may have
+      // been added since the rows were checked. Rooms are locked in order of
+      // their ID so two imports can't wait on each other.
+      if (mode === "current") {
+        const importedIds = [...new Set(roomIds as number[])].sort(
+          (a, b) => a - b
+        );
+        for (const roomId of importedIds) {
+          const room = rooms.find((room) => room.id === roomId)!;
+          const tenantCount = await countRoomTenantsForUpdate(tx, roomId);
+          if (tenantCount === null) {
+            return {
+              error: `${roomClosedError(room)}. Nothing was imported.`,
+            };
+          }
+          const capacityError = checkCapacity(
+            room,
+            tenantCount + roomIds.filter((id) => id === roomId).length
+          );
+          if (capacityError) {
+            return {
+              error: `${capacityError} (${tenantCount} already staying). Nothing was imported.`,
+            };
+          }
+        }
+      }
+
+      for (const [index, row] of rows.entries()) {
+        const tenant = await tx.tenant.create({
+          data: {
+            ...row.tenant!,
+            roomId: roomIds[index]!,
+            ...(mode === "historical"
+              ? {
+                  status: "ARCHIVED",
+                  createdAt: row.movedIn!,
+                  checkoutDate: row.movedOut!,
+                }
+              : {}),
+          },
+        });
+
+        await recordAudit(
+          {
+            actor: auth.user,
+            action: "CREATE",
+            entity: "Tenant",
+            entityId: tenant.id,
+            after: tenant,
+            roomId: tenant.roomId,
+            tenantId: tenant.id,
+          },
+          tx
+        );
+      }
+
+      return { count: rows.length };
+    });
+
+    if ("error" in imported) {
+      return NextResponse.json({ error: imported.error }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { imported: imported.count, rows: preview, errorCount: 0 },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error importing tenants:", error);
+    return NextResponse.json(
+      { error: "Failed to import tenants" },
+      { status: 500 }
+    );
+  }
+}
+
+// Add an error to rows whose Aadhar number is repeated in the file or
+// belongs to someone who is already a current tenant
+async function checkDuplicateAadhar(rows: ImportRow[]) {
+  const hashes = rows.map((row) =>
+    row.tenant ? blindIndex(row.tenant.aadharNumber) : null
+  );
+
+  const currentTenants = await prisma.tenant.findMany({
+    where: {
+      status: "ACTIVE",
+      deletedAt: null,
+      aadharHash: { in: hashes.filter((hash) => hash !== null) },
+    },
+    include: { room: true },
+  });
+
+  rows.forEach((row, index) => {
+    const hash = hashes[index];
+    if (!hash) return;
+
+    const firstRow = hashes.indexOf(hash);
+    if (firstRow < index) {
+      row.errors.push(
+        `The same Aadhar number is used in row ${rows[firstRow].row}`
+      );
+      return;
+    }
+
+    const existing = currentTenants.find(
+      (tenant) => tenant.aadharHash === hash
+    );
+    if (existing) {
+      row.errors.push(
+        `${existing.name} in room ${existing.room.name} already has this Aadhar number`
+      );
+    }
+  });
+}
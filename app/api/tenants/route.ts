@@ -1,19 +1,140 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
 import { Prisma } from "@prisma/client";
+import { validateTenant } from "@/lib/tenant-schema";
+import { maskTenant } from "@/lib/aadhar";
+import {
+  countRoomTenantsForUpdate,
+  findCurrentTenantByAadhar,
+  findTenantIdsByPhone,
+  roomClosedError,
+} from "@/lib/tenants";
+import { formatOccupancy } from "@/lib/rooms";
+import { recordAudit } from "@/lib/audit";
 
-// GET /api/tenants - Get all tenants with their rooms
-export async function GET() {
+// Most tenants returned at once, and the number returned by default
+const TENANT_PAGE_LIMIT = 100;
+const TENANT_PAGE_SIZE = 50;
+
+// Orders the tenant list can be sorted in. The tenant ID is added last so
+// that pages never overlap.
+const TENANT_SORTS: Record<
+  string,
+  (order: Prisma.SortOrder) => Prisma.TenantOrderByWithRelationInput[]
+> = {
+  createdAt: (order) => [{ createdAt: order }],
+  name: (order) => [{ name: order }],
+  district: (order) => [{ district: order }, { name: "asc" }],
+  room: (order) => [
+    { room: { floor: order } },
+    { room: { number: order } },
+    { room: { name: order } },
+    { name: "asc" },
+  ],
+};
+
+// GET /api/tenants - Get current tenants with their rooms, a page at a time
+// ?q= searches name, father's name, village and phone numbers
+// ?district=, ?state=, ?policeStation= and ?roomId= filter the list
+// ?sort=createdAt|name|district|room&order=asc|desc (newest first by default)
+// ?limit= and ?cursor= page through the list; each page has the total number
+// of matching tenants and the cursor of the next page, null on the last one
+export async function GET(request: NextRequest) {
   try {
-    const tenants = await prisma.tenant.findMany({
-      include: {
-        room: true,
-      },
-      orderBy: {
-        createdAt: "desc",
-      },
+    const { searchParams } = request.nextUrl;
+    const where: Prisma.TenantWhereInput = {
+      status: "ACTIVE",
+      deletedAt: null,
+    };
+
+    for (const field of ["district", "state", "policeStation"] as const) {
+      const value = searchParams.get(field)?.trim();
+      if (value) {
+        where[field] = { equals: value, mode: "insensitive" };
+      }
+    }
+
+    const roomId = searchParams.get("roomId");
+    if (roomId) {
+      if (isNaN(parseInt(roomId))) {
+        return NextResponse.json({ error: "Invalid room ID" }, { status: 400 });
+      }
+      where.roomId = parseInt(roomId);
+    }
+
+    const sort = searchParams.get("sort") || "createdAt";
+    if (!Object.hasOwn(TENANT_SORTS, sort)) {
+      return NextResponse.json(
+        {
+          error: `Sort must be one of ${Object.keys(TENANT_SORTS).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const order = searchParams.get("order") || "desc";
+    if (order !== "asc" && order !== "desc") {
+      return NextResponse.json(
+        { error: "Order must be asc or desc" },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam ? Number(limitParam) : TENANT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > TENANT_PAGE_LIMIT) {
+      return NextResponse.json(
+        { error: `Limit must be a number from 1 to ${TENANT_PAGE_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const cursorParam = searchParams.get("cursor");
+    const cursor = cursorParam ? parseInt(cursorParam) : undefined;
+    if (cursor !== undefined && isNaN(cursor)) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    const q = searchParams.get("q")?.trim();
+    if (q) {
+      const search: Prisma.TenantWhereInput[] = [
+        { name: { contains: q, mode: "insensitive" } },
+        { fatherName: { contains: q, mode: "insensitive" } },
+        { villageName: { contains: q, mode: "insensitive" } },
+      ];
+
+      // Searches that look like (part of) a phone number also match phones
+      const digits = q.replace(/\D/g, "");
+      if (digits && /^[\d\s+-]+$/.test(q)) {
+        const ids = await findTenantIdsByPhone(where, digits);
+        search.push({ id: { in: ids } });
+      }
+
+      where.OR = search;
+    }
+
+    const [tenants, total] = await Promise.all([
+      prisma.tenant.findMany({
+        where,
+        include: {
+          room: true,
+        },
+        orderBy: [...TENANT_SORTS[sort](order), { id: order }],
+        cursor: cursor !== undefined ? { id: cursor } : undefined,
+        skip: cursor !== undefined ? 1 : 0,
+        take: limit + 1,
+      }),
+      prisma.tenant.count({ where }),
+    ]);
+
+    // The extra tenant fetched shows whether there is another page
+    const page = tenants.slice(0, limit);
+    return NextResponse.json({
+      tenants: page.map(maskTenant),
+      total,
+      nextCursor: tenants.length > limit ? page[page.length - 1].id : null,
     });
-    return NextResponse.json(tenants);
   } catch (error) {
     console.error("Error fetching tenants:", error);
     return NextResponse.json(
@@ -26,33 +147,95 @@ export async function GET() {
 // POST /api/tenants - Create a new tenant
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorize("tenants:write");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
 
     // No need to handle periodFrom/periodTo anymore as they're room properties
 
+    const result = validateTenant(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid tenant details", fieldErrors: result.errors },
+        { status: 400 }
+      );
+    }
+
+    if (!body.roomId || isNaN(Number(body.roomId))) {
+      return NextResponse.json(
+        { error: "A valid room is required" },
+        { status: 400 }
+      );
+    }
+
+    const roomId = Number(body.roomId);
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+    });
+
+    if (!room || room.deletedAt || room.retiredAt) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    // The same person can't be a current tenant twice
+    const duplicate = await findCurrentTenantByAadhar(result.data.aadharNumber);
+    if (duplicate) {
+      return NextResponse.json(
+        {
+          error: "Invalid tenant details",
+          fieldErrors: {
+            aadharNumber: `${duplicate.name} in room ${duplicate.room.name} already has this Aadhar number`,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
     // Create tenant
-    const tenant = await prisma.tenant.create({
-      data: {
-        name: body.name,
-        fatherName: body.fatherName,
-        villageName: body.villageName,
-        tehsil: body.tehsil,
-        policeStation: body.policeStation,
-        district: body.district,
-        pincode: body.pincode,
-        state: body.state,
-        email: body.email,
-        aadharNumber: body.aadharNumber,
-        phoneNumber: body.phoneNumber,
-        fatherPhoneNumber: body.fatherPhoneNumber,
-        roomId: Number(body.roomId),
-      },
-      include: {
-        room: true,
-      },
+    const created = await prisma.$transaction(async (tx) => {
+      // The room must have a free bed
+      const tenantCount = await countRoomTenantsForUpdate(tx, roomId);
+      if (tenantCount === null) {
+        return { error: roomClosedError(room) };
+      }
+      if (tenantCount >= room.capacity) {
+        return {
+          error: `Room ${room.name} is full (${formatOccupancy(tenantCount, room.capacity)})`,
+        };
+      }
+
+      const tenant = await tx.tenant.create({
+        data: {
+          ...result.data,
+          roomId,
+        },
+        include: {
+          room: true,
+        },
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "CREATE",
+          entity: "Tenant",
+          entityId: tenant.id,
+          after: tenant,
+          roomId: tenant.roomId,
+          tenantId: tenant.id,
+        },
+        tx
+      );
+
+      return { tenant };
     });
 
-    return NextResponse.json(tenant, { status: 201 });
+    if ("error" in created) {
+      return NextResponse.json({ error: created.error }, { status: 409 });
+    }
+
+    return NextResponse.json(maskTenant(created.tenant), { status: 201 });
   } catch (error) {
     console.error("Error creating tenant:", error);
 
@@ -0,0 +1,205 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { maskTenant } from "@/lib/aadhar";
+import { LEASE_TERM_MONTHS, checkCapacity } from "@/lib/rooms";
+import { addMonths, toISODateString } from "@/lib/utils";
+import { archiveCurrentPeriod, endPeriodIfVacated } from "@/lib/dues";
+import { recordAudit } from "@/lib/audit";
+import { countRoomTenantsForUpdate, roomClosedError } from "@/lib/tenants";
+
+// POST /api/tenants/transfer - Move tenants to another room
+// Body: { tenantIds, roomId, effectiveDate? }
+// Each move is recorded in the tenant's stay history, so the rooms they left
+// keep them among their past tenants. Rent is charged per room, so the dues
+// and payments of both rooms stay where they are. A vacant room being moved
+// into keeps its earlier period and starts a new one on the day of the move;
+// a room left vacant stops charging rent from that day.
+export async function POST(req: Request) {
+  try {
+    const auth = await authorize("tenants:write");
+    if (auth.error) return auth.error;
+
+    const body = await req.json();
+
+    if (
+      !Array.isArray(body.tenantIds) ||
+      body.tenantIds.length === 0 ||
+      body.tenantIds.some((id: unknown) => !Number.isInteger(Number(id)))
+    ) {
+      return NextResponse.json(
+        { error: "Choose at least one tenant to move" },
+        { status: 400 }
+      );
+    }
+
+    const roomId = Number(body.roomId);
+    if (!body.roomId || !Number.isInteger(roomId)) {
+      return NextResponse.json(
+        { error: "Choose the room to move to" },
+        { status: 400 }
+      );
+    }
+
+    const effectiveDate = body.effectiveDate
+      ? new Date(body.effectiveDate)
+      : new Date();
+
+    if (isNaN(effectiveDate.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid date format for effectiveDate" },
+        { status: 400 }
+      );
+    }
+
+    if (effectiveDate > new Date()) {
+      return NextResponse.json(
+        { error: "Transfer date can't be in the future" },
+        { status: 400 }
+      );
+    }
+
+    const tenantIds = [...new Set<number>(body.tenantIds.map(Number))];
+    const tenants = await prisma.tenant.findMany({
+      where: { id: { in: tenantIds }, deletedAt: null },
+      include: {
+        room: true,
+        transfers: { orderBy: { effectiveDate: "desc" }, take: 1 },
+      },
+    });
+
+    if (tenants.length !== tenantIds.length) {
+      return NextResponse.json({ error: "Tenant not found" }, { status: 404 });
+    }
+
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+    });
+
+    if (!room || room.deletedAt || room.retiredAt) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    for (const tenant of tenants) {
+      if (tenant.status === "ARCHIVED") {
+        return NextResponse.json(
+          { error: `${tenant.name} has already moved out` },
+          { status: 400 }
+        );
+      }
+
+      if (tenant.roomId === roomId) {
+        return NextResponse.json(
+          { error: `${tenant.name} is already in room ${room.name}` },
+          { status: 400 }
+        );
+      }
+
+      // A tenant can't leave a room before they moved into it
+      const movedIn = tenant.transfers[0]?.effectiveDate ?? tenant.createdAt;
+      if (toISODateString(effectiveDate) < toISODateString(movedIn)) {
+        return NextResponse.json(
+          {
+            error: `${tenant.name} moved into room ${tenant.room.name} on ${toISODateString(movedIn)}, after the transfer date`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const transferredBy = auth.user.name || auth.user.email;
+
+    const transfer = await prisma.$transaction(async (tx) => {
+      // The tenants moving in need a free bed each
+      const tenantCount = await countRoomTenantsForUpdate(tx, roomId);
+      if (tenantCount === null) {
+        return { error: roomClosedError(room) };
+      }
+      const capacityError = checkCapacity(room, tenantCount + tenants.length);
+      if (capacityError) {
+        return { error: `${capacityError} (${tenantCount} already staying)` };
+      }
+
+      // A vacant room is let from the day of the move, at its current rent.
+      // Its earlier period is kept, up to the move, so its unpaid months are
+      // still due.
+      if (tenantCount === 0) {
+        await archiveCurrentPeriod(tx, room, effectiveDate);
+        const letRoom = await tx.room.update({
+          where: { id: roomId },
+          data: {
+            periodFrom: effectiveDate,
+            periodTo: addMonths(effectiveDate, LEASE_TERM_MONTHS),
+          },
+        });
+        await recordAudit(
+          {
+            actor: auth.user,
+            action: "UPDATE",
+            entity: "Room",
+            entityId: roomId,
+            before: room,
+            after: letRoom,
+            roomId,
+          },
+          tx
+        );
+      }
+
+      const moved = [];
+      for (const tenant of tenants) {
+        await tx.tenantTransfer.create({
+          data: {
+            tenantId: tenant.id,
+            fromRoomId: tenant.roomId,
+            toRoomId: roomId,
+            effectiveDate,
+            transferredBy,
+          },
+        });
+
+        const updated = await tx.tenant.update({
+          where: { id: tenant.id },
+          data: { roomId },
+          include: { room: true },
+        });
+        await recordAudit(
+          {
+            actor: auth.user,
+            action: "UPDATE",
+            entity: "Tenant",
+            entityId: tenant.id,
+            before: tenant,
+            after: updated,
+            roomId,
+            tenantId: tenant.id,
+          },
+          tx
+        );
+
+        moved.push(maskTenant(updated));
+      }
+
+      // A room left without tenants stops charging rent from the move
+      for (const fromRoomId of new Set(
+        tenants.map((tenant) => tenant.roomId)
+      )) {
+        await endPeriodIfVacated(tx, auth.user, fromRoomId, effectiveDate);
+      }
+
+      return { moved };
+    });
+
+    if ("error" in transfer) {
+      return NextResponse.json({ error: transfer.error }, { status: 409 });
+    }
+
+    return NextResponse.json(transfer.moved);
+  } catch (error) {
+    console.error("Error transferring tenants:", error);
+    return NextResponse.json(
+      { error: "Failed to transfer tenants" },
+      { status: 500 }
+    );
+  }
+}
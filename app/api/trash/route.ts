@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
+import { maskTenant } from "@/lib/aadhar";
+import { TRASH_RETENTION_DAYS } from "@/lib/trash";
+
+// GET /api/trash - Get the rooms and tenants in the trash, most recently
+// deleted first
+export async function GET() {
+  try {
+    const auth = await authorize("tenants:delete");
+    if (auth.error) return auth.error;
+
+    const [rooms, tenants] = await Promise.all([
+      prisma.room.findMany({
+        where: { deletedAt: { not: null } },
+        orderBy: { deletedAt: "desc" },
+      }),
+      prisma.tenant.findMany({
+        where: { deletedAt: { not: null } },
+        include: { room: true },
+        orderBy: { deletedAt: "desc" },
+      }),
+    ]);
+
+    return NextResponse.json({
+      retentionDays: TRASH_RETENTION_DAYS,
+      rooms,
+      tenants: tenants.map(maskTenant),
+    });
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trash" },
+      { status: 500 }
+    );
+  }
+}
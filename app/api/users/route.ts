@@ -1,11 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/auth";
 import { Prisma } from "@prisma/client";
+import { hashPassword } from "@/lib/password";
+import { ROLES } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+
+// Never send password hashes to the client
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  createdAt: true,
+  updatedAt: true,
+};
 
 // GET /api/users
 export async function GET() {
   try {
-    const users = await prisma.user.findMany();
+    const auth = await authorize("users:manage");
+    if (auth.error) return auth.error;
+
+    const users = await prisma.user.findMany({ select: userSelect });
     return NextResponse.json(users);
   } catch (error) {
     console.error("Error fetching users:", error);
@@ -19,18 +36,54 @@ export async function GET() {
 // POST /api/users
 export async function POST(request: NextRequest) {
   try {
+    const auth = await authorize("users:manage");
+    if (auth.error) return auth.error;
+
     const body = await request.json();
-    const { email, name } = body;
+    const { email, name, password, role } = body;
 
     if (!email) {
       return NextResponse.json({ error: "Email is required" }, { status: 400 });
     }
 
-    const user = await prisma.user.create({
-      data: {
-        email,
-        name,
-      },
+    if (password !== undefined && String(password).length < 8) {
+      return NextResponse.json(
+        { error: "Password must be at least 8 characters" },
+        { status: 400 }
+      );
+    }
+
+    if (role !== undefined && !Object.hasOwn(ROLES, role)) {
+      return NextResponse.json(
+        { error: `Role must be one of ${Object.keys(ROLES).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const passwordHash = password ? await hashPassword(String(password)) : null;
+    const user = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.create({
+        data: {
+          email: String(email).trim().toLowerCase(),
+          name,
+          passwordHash,
+          role,
+        },
+        select: userSelect,
+      });
+
+      await recordAudit(
+        {
+          actor: auth.user,
+          action: "CREATE",
+          entity: "User",
+          entityId: user.id,
+          after: user,
+        },
+        tx
+      );
+
+      return user;
     });
 
     return NextResponse.json(user, { status: 201 });
@@ -0,0 +1,348 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { cn, formatDate } from "@/lib/utils";
+import { can } from "@/lib/permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+interface Room {
+  id: number;
+  name: string;
+}
+
+interface Tenant {
+  id: number;
+  name: string;
+}
+
+type JsonValue = string | number | boolean | null;
+
+interface AuditLog {
+  id: number;
+  action: "CREATE" | "UPDATE" | "DELETE";
+  entity: string;
+  entityId: number | null;
+  changes: Record<string, { before: JsonValue; after: JsonValue }>;
+  actorName: string;
+  roomId: number | null;
+  roomName: string | null;
+  tenantId: number | null;
+  tenantName: string | null;
+  createdAt: string;
+}
+
+// What each kind of record is called on the page
+const ENTITY_LABELS: Record<string, string> = {
+  Charge: "Charge",
+  Deposit: "Deposit",
+  DepositTransaction: "Deposit deduction or refund",
+  LodgeSettings: "Settings",
+  MeterReading: "Meter reading",
+  Payment: "Payment",
+  PhysicalRoom: "Physical room",
+  Room: "Room",
+  Tenant: "Tenant",
+  User: "User",
+};
+
+const ACTION_STYLES = {
+  CREATE: "bg-green-100 text-green-800",
+  UPDATE: "bg-blue-100 text-blue-800",
+  DELETE: "bg-red-100 text-red-800",
+};
+
+// "rentAmount" -> "rent amount"
+function fieldLabel(field: string): string {
+  return field.replace(/([A-Z])/g, " $1").toLowerCase();
+}
+
+// Dates are stored as ISO strings; show them the way the rest of the app does
+function formatValue(value: JsonValue): string {
+  if (value === null || value === "") return "empty";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return formatDate(new Date(value));
+  }
+  return String(value);
+}
+
+export default function AuditLogPage() {
+  const currentUser = useCurrentUser();
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [roomTenants, setRoomTenants] = useState<Tenant[]>([]);
+  const [roomId, setRoomId] = useState("");
+  const [tenantId, setTenantId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRooms = async () => {
+      try {
+        const response = await fetch("/api/rooms");
+        if (!response.ok) {
+          throw new Error("Failed to fetch rooms");
+        }
+        setRooms(await response.json());
+      } catch (err) {
+        console.error("Error fetching rooms:", err);
+        setError("Failed to load rooms data. Please refresh the page.");
+      }
+    };
+
+    fetchRooms();
+  }, []);
+
+  // Current and past tenants of the chosen room, to filter by
+  useEffect(() => {
+    setTenantId("");
+    if (!roomId) {
+      setRoomTenants([]);
+      return;
+    }
+
+    const fetchTenants = async () => {
+      try {
+        const [currentResponse, pastResponse] = await Promise.all([
+          fetch(`/api/rooms/${roomId}/tenants`),
+          fetch(`/api/rooms/${roomId}/tenants/past`),
+        ]);
+        if (!currentResponse.ok || !pastResponse.ok) {
+          throw new Error("Failed to fetch tenants");
+        }
+        setRoomTenants([
+          ...(await currentResponse.json()),
+          ...(await pastResponse.json()),
+        ]);
+      } catch (err) {
+        console.error("Error fetching tenants:", err);
+        setError("Failed to load the room's tenants.");
+      }
+    };
+
+    fetchTenants();
+  }, [roomId]);
+
+  const fetchLogs = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (roomId) params.set("roomId", roomId);
+    if (tenantId) params.set("tenantId", tenantId);
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/audit-logs?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch audit log");
+      }
+      setLogs(await response.json());
+    } catch (err) {
+      console.error("Error fetching audit log:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch audit log"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [roomId, tenantId, from, to]);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [fetchLogs]);
+
+  if (currentUser && !can(currentUser.role, "audit:view")) {
+    return (
+      <div className="container mx-auto p-4 max-w-7xl">
+        <div className="bg-amber-50 text-amber-800 p-3 rounded-md border border-amber-200">
+          Only the owner can view the audit log.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 max-w-7xl">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-gray-600 mt-1">
+            Who changed what, with the values before and after each change
+          </p>
+        </div>
+        <Link
+          href="/rooms"
+          className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors duration-200"
+        >
+          Room Overview
+        </Link>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Room
+            </label>
+            <select
+              className="w-full p-2 border rounded-md bg-white"
+              value={roomId}
+              onChange={(e) => setRoomId(e.target.value)}
+            >
+              <option value="">All rooms</option>
+              {rooms.map((room) => (
+                <option key={room.id} value={room.id}>
+                  {room.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Tenant
+            </label>
+            <select
+              className="w-full p-2 border rounded-md bg-white"
+              value={tenantId}
+              onChange={(e) => setTenantId(e.target.value)}
+              disabled={!roomId}
+            >
+              <option value="">
+                {roomId ? "All tenants" : "Choose a room first"}
+              </option>
+              {roomTenants.map((tenant) => (
+                <option key={tenant.id} value={tenant.id}>
+                  {tenant.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              From
+            </label>
+            <input
+              type="date"
+              className="w-full p-2 border rounded-md"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              To
+            </label>
+            <input
+              type="date"
+              className="w-full p-2 border rounded-md"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 text-red-700 p-3 rounded-md mb-4">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500">Loading audit log...</p>
+        ) : logs.length === 0 ? (
+          <p className="text-gray-500">No changes found.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="bg-gray-50">
+                  {["When", "Who", "Action", "Record", "Room", "Changes"].map(
+                    (heading) => (
+                      <th
+                        key={heading}
+                        className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                      >
+                        {heading}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {logs.map((log) => {
+                  const createdAt = new Date(log.createdAt);
+                  return (
+                    <tr key={log.id} className="align-top">
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {formatDate(createdAt)}
+                        <div className="text-sm text-gray-500">
+                          {createdAt.toLocaleTimeString("en-IN", {
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {log.actorName}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <span
+                          className={cn(
+                            "px-2 py-1 rounded-full text-xs font-medium",
+                            ACTION_STYLES[log.action]
+                          )}
+                        >
+                          {log.action.charAt(0) +
+                            log.action.slice(1).toLowerCase()}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {ENTITY_LABELS[log.entity] ?? log.entity}
+                        {log.entityId !== null && ` #${log.entityId}`}
+                        {log.tenantId !== null && (
+                          <div className="text-sm text-gray-500">
+                            {log.tenantName ?? `Tenant #${log.tenantId}`}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {log.roomId !== null
+                          ? (log.roomName ?? `#${log.roomId}`)
+                          : "-"}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <ul className="space-y-1">
+                          {Object.entries(log.changes).map(
+                            ([field, change]) => (
+                              <li key={field}>
+                                <span className="text-gray-500">
+                                  {fieldLabel(field)}:
+                                </span>{" "}
+                                {log.action === "CREATE"
+                                  ? formatValue(change.after)
+                                  : log.action === "DELETE"
+                                    ? formatValue(change.before)
+                                    : `${formatValue(change.before)} → ${formatValue(change.after)}`}
+                              </li>
+                            )
+                          )}
+                        </ul>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { formatDate, getTodayString } from "@/lib/utils";
+import { PAYMENT_METHODS, PaymentMethod } from "@/lib/payments";
+import {
+  DEPOSIT_TRANSACTION_TYPES,
+  DepositTransactionType,
+} from "@/lib/deposits";
+import { can } from "@/lib/permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+interface Tenant {
+  id: number;
+  name: string;
+}
+
+interface DepositTransaction {
+  id: number;
+  type: DepositTransactionType;
+  amount: number;
+  date: string;
+  reason: string | null;
+  method: PaymentMethod | null;
+}
+
+interface Deposit {
+  id: number;
+  amount: number;
+  receivedOn: string;
+  method: PaymentMethod;
+  notes: string | null;
+  tenant: Tenant;
+  transactions: DepositTransaction[];
+  balance: number;
+}
+
+interface DepositPanelProps {
+  roomId: number;
+  tenants: Tenant[];
+}
+
+const inputClassName = "w-full p-2 border rounded-md text-sm bg-white";
+
+// Security deposits of a room: what was received, what was deducted or
+// refunded, and how much is still owed back to the tenants
+export default function DepositPanel({ roomId, tenants }: DepositPanelProps) {
+  const currentUser = useCurrentUser();
+  const canWrite = can(currentUser?.role, "payments:write");
+  const [deposits, setDeposits] = useState<Deposit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showDepositForm, setShowDepositForm] = useState(false);
+  const [depositForm, setDepositForm] = useState({
+    amount: "",
+    receivedOn: getTodayString(),
+    method: "CASH" as PaymentMethod,
+    tenantId: "",
+  });
+  // The deposit a deduction or refund is being recorded for
+  const [settlingDepositId, setSettlingDepositId] = useState<number | null>(
+    null
+  );
+  const [transactionForm, setTransactionForm] = useState({
+    type: "REFUND" as DepositTransactionType,
+    amount: "",
+    date: getTodayString(),
+    reason: "",
+    method: "CASH" as PaymentMethod,
+  });
+
+  const fetchDeposits = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/deposits?roomId=${roomId}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch deposits");
+      }
+      setDeposits(await response.json());
+    } catch (error) {
+      console.error("Error fetching deposits:", error);
+      setError("Failed to load deposits");
+    } finally {
+      setLoading(false);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    fetchDeposits();
+  }, [fetchDeposits]);
+
+  const outstanding = deposits.reduce(
+    (total, deposit) => total + deposit.balance,
+    0
+  );
+
+  // Send a deposit change to the server and reload the list
+  const submit = async (url: string, body: object, onSuccess: () => void) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save deposit");
+      }
+
+      onSuccess();
+      await fetchDeposits();
+    } catch (error) {
+      console.error("Error saving deposit:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to save deposit"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRecordDeposit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(
+      "/api/deposits",
+      {
+        roomId,
+        amount: Number(depositForm.amount),
+        receivedOn: depositForm.receivedOn,
+        method: depositForm.method,
+        tenantId: Number(depositForm.tenantId),
+      },
+      () => {
+        setShowDepositForm(false);
+        setDepositForm({ ...depositForm, amount: "", tenantId: "" });
+      }
+    );
+  };
+
+  const handleOpenSettle = (deposit: Deposit) => {
+    setSettlingDepositId(deposit.id);
+    setTransactionForm({
+      type: "REFUND",
+      amount: String(deposit.balance),
+      date: getTodayString(),
+      reason: "",
+      method: "CASH",
+    });
+  };
+
+  const handleRecordTransaction = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(
+      `/api/deposits/${settlingDepositId}/transactions`,
+      {
+        ...transactionForm,
+        amount: Number(transactionForm.amount),
+      },
+      () => setSettlingDepositId(null)
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-200 pt-6">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-semibold text-gray-900">Security Deposit</h3>
+        {canWrite && !showDepositForm && tenants.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowDepositForm(true)}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            Record Deposit
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-100 text-red-700 p-3 rounded-md mb-3 text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500 mb-3">Loading deposits...</p>
+      ) : deposits.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-3">
+          No deposit has been recorded for this room.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm mb-3">
+            Outstanding (owed back):{" "}
+            <span className="font-semibold">₹{outstanding}</span>
+          </p>
+          <div className="space-y-3 mb-3">
+            {deposits.map((deposit) => (
+              <div
+                key={deposit.id}
+                className="border border-gray-200 rounded-lg p-3 text-sm"
+              >
+                <div className="flex justify-between items-start gap-3">
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      ₹{deposit.amount} received on{" "}
+                      {formatDate(new Date(deposit.receivedOn))} by{" "}
+                      {PAYMENT_METHODS[deposit.method]}
+                    </div>
+                    <div className="text-gray-600">
+                      Paid by {deposit.tenant.name} · Still held: ₹
+                      {deposit.balance}
+                    </div>
+                  </div>
+                  {canWrite &&
+                    deposit.balance > 0 &&
+                    settlingDepositId !== deposit.id && (
+                      <button
+                        type="button"
+                        onClick={() => handleOpenSettle(deposit)}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-800 whitespace-nowrap"
+                      >
+                        Deduct / Refund
+                      </button>
+                    )}
+                </div>
+
+                {deposit.transactions.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-gray-600">
+                    {deposit.transactions.map((transaction) => (
+                      <li key={transaction.id}>
+                        {formatDate(new Date(transaction.date))} ·{" "}
+                        {DEPOSIT_TRANSACTION_TYPES[transaction.type]} ₹
+                        {transaction.amount}
+                        {transaction.method &&
+                          ` by ${PAYMENT_METHODS[transaction.method]}`}
+                        {transaction.reason && ` · ${transaction.reason}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {settlingDepositId === deposit.id && (
+                  <form
+                    onSubmit={handleRecordTransaction}
+                    className="grid grid-cols-2 gap-3 mt-3"
+                  >
+                    <select
+                      className={inputClassName}
+                      value={transactionForm.type}
+                      onChange={(e) =>
+                        setTransactionForm({
+                          ...transactionForm,
+                          type: e.target.value as DepositTransactionType,
+                        })
+                      }
+                    >
+                      {Object.entries(DEPOSIT_TRANSACTION_TYPES).map(
+                        ([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        )
+                      )}
+                    </select>
+                    <input
+                      type="number"
+                      className={inputClassName}
+                      placeholder="Amount (₹)"
+                      min="1"
+                      max={deposit.balance}
+                      value={transactionForm.amount}
+                      onChange={(e) =>
+                        setTransactionForm({
+                          ...transactionForm,
+                          amount: e.target.value,
+                        })
+                      }
+                      required
+                    />
+                    <input
+                      type="date"
+                      className={inputClassName}
+                      value={transactionForm.date}
+                      onChange={(e) =>
+                        setTransactionForm({
+                          ...transactionForm,
+                          date: e.target.value,
+                        })
+                      }
+                      required
+                    />
+                    {transactionForm.type === "REFUND" ? (
+                      <select
+                        className={inputClassName}
+                        value={transactionForm.method}
+                        onChange={(e) =>
+                          setTransactionForm({
+                            ...transactionForm,
+                            method: e.target.value as PaymentMethod,
+                          })
+                        }
+                      >
+                        {Object.entries(PAYMENT_METHODS).map(
+                          ([value, label]) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          )
+                        )}
+                      </select>
+                    ) : (
+                      <div />
+                    )}
+                    <input
+                      type="text"
+                      className={`${inputClassName} col-span-2`}
+                      placeholder={
+                        transactionForm.type === "DEDUCTION"
+                          ? "Reason, e.g. broken window"
+                          : "Notes"
+                      }
+                      value={transactionForm.reason}
+                      onChange={(e) =>
+                        setTransactionForm({
+                          ...transactionForm,
+                          reason: e.target.value,
+                        })
+                      }
+                      required={transactionForm.type === "DEDUCTION"}
+                    />
+                    <div className="col-span-2 flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setSettlingDepositId(null)}
+                        className="px-3 py-1.5 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={submitting}
+                        className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {submitting ? "Saving..." : "Save"}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {showDepositForm && (
+        <form
+          onSubmit={handleRecordDeposit}
+          className="grid grid-cols-2 gap-3 border border-gray-200 rounded-lg p-3"
+        >
+          <input
+            type="number"
+            className={inputClassName}
+            placeholder="Amount (₹)"
+            min="1"
+            value={depositForm.amount}
+            onChange={(e) =>
+              setDepositForm({ ...depositForm, amount: e.target.value })
+            }
+            required
+          />
+          <input
+            type="date"
+            className={inputClassName}
+            value={depositForm.receivedOn}
+            onChange={(e) =>
+              setDepositForm({ ...depositForm, receivedOn: e.target.value })
+            }
+            required
+          />
+          <select
+            className={inputClassName}
+            value={depositForm.method}
+            onChange={(e) =>
+              setDepositForm({
+                ...depositForm,
+                method: e.target.value as PaymentMethod,
+              })
+            }
+          >
+            {Object.entries(PAYMENT_METHODS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            className={inputClassName}
+            value={depositForm.tenantId}
+            onChange={(e) =>
+              setDepositForm({ ...depositForm, tenantId: e.target.value })
+            }
+            required
+          >
+            <option value="">Paid by...</option>
+            {tenants.map((tenant) => (
+              <option key={tenant.id} value={tenant.id}>
+                {tenant.name}
+              </option>
+            ))}
+          </select>
+          <div className="col-span-2 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShowDepositForm(false)}
+              className="px-3 py-1.5 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {submitting ? "Saving..." : "Record Deposit"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
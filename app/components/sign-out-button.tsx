@@ -0,0 +1,22 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+
+export default function SignOutButton() {
+  const router = useRouter();
+
+  const handleSignOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    router.replace("/login");
+    router.refresh();
+  };
+
+  return (
+    <button
+      onClick={handleSignOut}
+      className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+    >
+      Sign Out
+    </button>
+  );
+}
@@ -1,11 +1,13 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { ROLES, Role } from "@/lib/permissions";
 
 interface User {
   id: number;
   email: string;
   name: string | null;
+  role: Role;
   createdAt: string;
   updatedAt: string;
 }
@@ -29,6 +31,8 @@ export default function DbTestPage() {
   const [users, setUsers] = useState<User[]>([]);
   const [email, setEmail] = useState("");
   const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<Role>("VIEWER");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -63,7 +67,12 @@ export default function DbTestPage() {
       const response = await fetch("/api/users", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, name: name || undefined }),
+        body: JSON.stringify({
+          email,
+          name: name || undefined,
+          password: password || undefined,
+          role,
+        }),
       });
 
       const data = await response.json();
@@ -75,6 +84,7 @@ export default function DbTestPage() {
       setSuccess("User created successfully!");
       setEmail("");
       setName("");
+      setPassword("");
 
       // Refresh the user list
       fetchUsers();
@@ -127,6 +137,41 @@ export default function DbTestPage() {
             />
           </div>
 
+          <div>
+            <label
+              htmlFor="password"
+              className="block text-sm font-medium mb-1"
+            >
+              Password (needed to log in, at least 8 characters)
+            </label>
+            <input
+              type="password"
+              id="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full p-2 border rounded"
+              autoComplete="new-password"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="role" className="block text-sm font-medium mb-1">
+              Role
+            </label>
+            <select
+              id="role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as Role)}
+              className="w-full p-2 border rounded bg-white"
+            >
+              {Object.entries(ROLES).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <button
             type="submit"
             disabled={loading}
@@ -172,6 +217,7 @@ export default function DbTestPage() {
                 <th className="border p-2 text-left">ID</th>
                 <th className="border p-2 text-left">Email</th>
                 <th className="border p-2 text-left">Name</th>
+                <th className="border p-2 text-left">Role</th>
                 <th className="border p-2 text-left">Created At</th>
               </tr>
             </thead>
@@ -181,6 +227,7 @@ export default function DbTestPage() {
                   <td className="border p-2">{user.id}</td>
                   <td className="border p-2">{user.email}</td>
                   <td className="border p-2">{user.name || "-"}</td>
+                  <td className="border p-2">{ROLES[user.role]}</td>
                   <td className="border p-2">
                     {new Date(user.createdAt).toLocaleString()}
                   </td>
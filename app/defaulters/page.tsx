@@ -0,0 +1,214 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { formatBillingMonth, formatDate } from "@/lib/utils";
+import { can } from "@/lib/permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+// Dues of a room as calculated by the server
+interface MonthDues {
+  billingMonth: string;
+  rent: number;
+  charges: number; // e.g. late fees
+  due: number;
+  paid: number;
+  balance: number;
+}
+
+interface RoomDues {
+  roomId: number;
+  roomName: string;
+  tenants: string[];
+  rentAmount: number;
+  months: MonthDues[];
+  unpaidMonths: number;
+  oldestUnpaidMonth: string | null;
+  arrears: number;
+}
+
+export default function DefaultersPage() {
+  const currentUser = useCurrentUser();
+  const [rooms, setRooms] = useState<RoomDues[]>([]);
+  const [totalArrears, setTotalArrears] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [applyingLateFees, setApplyingLateFees] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchDefaulters = useCallback(async () => {
+    try {
+      const response = await fetch("/api/dues?defaulters=true");
+      if (!response.ok) {
+        throw new Error("Failed to fetch dues");
+      }
+
+      const data = await response.json();
+      // Longest overdue first, so the oldest arrears are collected first
+      setRooms(
+        data.rooms.sort((a: RoomDues, b: RoomDues) =>
+          a.oldestUnpaidMonth!.localeCompare(b.oldestUnpaidMonth!)
+        )
+      );
+      setTotalArrears(data.totalArrears);
+    } catch (err) {
+      console.error("Error fetching dues:", err);
+      setError("Failed to load dues. Please refresh the page.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDefaulters();
+  }, [fetchDefaulters]);
+
+  // Bring the late fees up to date now rather than waiting for the daily run
+  const handleApplyLateFees = async () => {
+    setApplyingLateFees(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch("/api/charges/late-fees", {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to apply late fees");
+      }
+
+      const data = await response.json();
+      setSuccess(`${data.count} late fee(s) added or updated.`);
+      fetchDefaulters();
+    } catch (err) {
+      console.error("Error applying late fees:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to apply late fees"
+      );
+    } finally {
+      setApplyingLateFees(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-7xl">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Defaulters</h1>
+          <p className="text-gray-600 mt-1">
+            Rooms with unpaid rent as of {formatDate(new Date())}
+          </p>
+        </div>
+        <div className="flex gap-3 print:hidden">
+          {currentUser && can(currentUser.role, "payments:write") && (
+            <button
+              onClick={handleApplyLateFees}
+              disabled={applyingLateFees}
+              className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 disabled:opacity-50"
+            >
+              {applyingLateFees ? "Updating..." : "Update Late Fees"}
+            </button>
+          )}
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+          >
+            Print
+          </button>
+          <Link
+            href="/payments"
+            className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors duration-200"
+          >
+            Collect Rent
+          </Link>
+        </div>
+      </div>
+
+      {success && (
+        <div className="bg-green-100 text-green-700 p-3 rounded-md mb-4 print:hidden">
+          {success}
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        {loading ? (
+          <p className="text-gray-500">Calculating dues...</p>
+        ) : error ? (
+          <div className="bg-red-100 text-red-700 p-3 rounded-md">{error}</div>
+        ) : rooms.length === 0 ? (
+          <p className="text-green-700">
+            No arrears. Every occupied room has paid its rent.
+          </p>
+        ) : (
+          <>
+            <p className="mb-6 font-medium">
+              {rooms.length} room(s) in arrears · Total Arrears: ₹{totalArrears}
+            </p>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr className="bg-gray-50">
+                    {[
+                      "Room",
+                      "Tenants",
+                      "Rent",
+                      "Unpaid Months",
+                      "Oldest Unpaid",
+                      "Arrears",
+                    ].map((heading) => (
+                      <th
+                        key={heading}
+                        className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                      >
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rooms.map((room) => (
+                    <tr key={room.roomId}>
+                      <td className="px-4 py-3 whitespace-nowrap font-medium">
+                        {room.roomName}
+                      </td>
+                      <td className="px-4 py-3">{room.tenants.join(", ")}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        ₹{room.rentAmount}
+                      </td>
+                      <td className="px-4 py-3">
+                        {room.months
+                          .filter((month) => month.balance > 0)
+                          .map(
+                            (month) =>
+                              `${formatBillingMonth(month.billingMonth)}${
+                                month.paid > 0
+                                  ? ` (₹${month.balance} left)`
+                                  : ""
+                              }${
+                                month.charges > 0
+                                  ? ` incl. ₹${month.charges} charges`
+                                  : ""
+                              }`
+                          )
+                          .join(", ")}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {room.oldestUnpaidMonth &&
+                          formatBillingMonth(room.oldestUnpaidMonth)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right font-semibold text-red-700">
+                        ₹{room.arrears}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { formatBillingMonth, toBillingMonth } from "@/lib/utils";
+import { groupRoomsByFloor } from "@/lib/rooms";
+import { calculateElectricityBill } from "@/lib/electricity";
+import { ELECTRICITY_SPLITS, ElectricitySplit } from "@/lib/settings";
+import { can } from "@/lib/permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+interface MeterReading {
+  id: number;
+  billingMonth: string;
+  reading: number;
+  rate: number;
+  recordedBy: string | null;
+}
+
+interface Charge {
+  id: number;
+  amount: number;
+  description: string | null;
+  waivedAt: string | null;
+}
+
+interface RoomReading {
+  roomId: number;
+  roomName: string;
+  floor: number;
+  tenants: string[];
+  previous: { billingMonth: string; reading: number } | null;
+  reading: MeterReading | null;
+  charge: Charge | null;
+}
+
+interface ReadingsData {
+  billingMonth: string;
+  electricityRate: number;
+  electricitySplit: ElectricitySplit;
+  rooms: RoomReading[];
+}
+
+export default function ElectricityPage() {
+  const currentUser = useCurrentUser();
+  const canRecord = can(currentUser?.role, "payments:write");
+  const [billingMonth, setBillingMonth] = useState(toBillingMonth(new Date()));
+  const [data, setData] = useState<ReadingsData | null>(null);
+  // Readings typed in for each room, by room ID
+  const [entries, setEntries] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingRoomId, setSavingRoomId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchReadings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(
+        `/api/meter-readings?billingMonth=${billingMonth}`
+      );
+      if (!response.ok) {
+        throw new Error("Failed to fetch meter readings");
+      }
+      setData(await response.json());
+      setEntries({});
+    } catch (err) {
+      console.error("Error fetching meter readings:", err);
+      setError("Failed to load meter readings. Please refresh the page.");
+    } finally {
+      setLoading(false);
+    }
+  }, [billingMonth]);
+
+  useEffect(() => {
+    fetchReadings();
+  }, [fetchReadings]);
+
+  const handleSave = async (room: RoomReading) => {
+    const reading = entries[room.roomId]?.trim();
+    if (!reading) return;
+
+    setSavingRoomId(room.roomId);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch("/api/meter-readings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          roomId: room.roomId,
+          billingMonth,
+          reading: Number(reading),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save reading");
+      }
+
+      const saved = await response.json();
+      setSuccess(
+        saved.charge
+          ? `Reading for room ${room.roomName} saved. Electricity bill: ₹${saved.charge.amount}.`
+          : `Reading for room ${room.roomName} saved. Its bill starts from next month's reading.`
+      );
+      fetchReadings();
+    } catch (error) {
+      console.error("Error saving reading:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to save reading"
+      );
+    } finally {
+      setSavingRoomId(null);
+    }
+  };
+
+  // The bill for a room: previewed from the reading being typed in, or the
+  // one already charged for the month
+  const getBill = (room: RoomReading) => {
+    const entry = entries[room.roomId]?.trim();
+    if (entry && room.previous && data) {
+      const value = Number(entry);
+      if (!Number.isInteger(value) || value < room.previous.reading) {
+        return null;
+      }
+
+      const bill = calculateElectricityBill(
+        room.previous.reading,
+        value,
+        room.reading?.rate ?? data.electricityRate,
+        data.electricitySplit === "TENANTS" ? room.tenants : []
+      );
+      return {
+        units: bill.units,
+        amount: bill.amount,
+        detail: bill.shares
+          .map((share) => `${share.name} ₹${share.amount}`)
+          .join(", "),
+      };
+    }
+
+    if (room.reading && room.previous && room.charge) {
+      return {
+        units: room.reading.reading - room.previous.reading,
+        amount: room.charge.amount,
+        detail: room.charge.waivedAt ? "Waived" : "",
+      };
+    }
+
+    return null;
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-7xl">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Electricity</h1>
+          <p className="text-gray-600 mt-1">
+            Enter each room&apos;s sub-meter reading for the month. The units
+            used since the previous reading are added to the room&apos;s dues.
+          </p>
+        </div>
+        <Link
+          href="/settings"
+          className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors duration-200"
+        >
+          Tariff Settings
+        </Link>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <label htmlFor="month" className="text-sm font-medium text-gray-700">
+            Billing Month
+          </label>
+          <input
+            id="month"
+            type="month"
+            className="p-2 border rounded-md"
+            value={billingMonth}
+            onChange={(e) => e.target.value && setBillingMonth(e.target.value)}
+          />
+          {data && (
+            <span className="text-sm text-gray-600">
+              Tariff: ₹{data.electricityRate} per unit ·{" "}
+              {ELECTRICITY_SPLITS[data.electricitySplit]}
+            </span>
+          )}
+        </div>
+
+        {data && data.electricityRate === 0 && (
+          <div className="bg-amber-50 text-amber-800 p-3 rounded-md mb-4 border border-amber-200">
+            No tariff has been set, so bills will be ₹0. Set the rate per unit
+            in Settings first.
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-100 text-red-700 p-3 rounded-md mb-4">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-100 text-green-700 p-3 rounded-md mb-4">
+            {success}
+          </div>
+        )}
+
+        {loading || !data ? (
+          <p className="text-gray-500">Loading meter readings...</p>
+        ) : data.rooms.length === 0 ? (
+          <p className="text-gray-500">No rooms found.</p>
+        ) : (
+          groupRoomsByFloor(data.rooms).map(({ floor, label, rooms }) => (
+            <div key={floor} className="mb-8">
+              <h2 className="text-xl font-semibold mb-4">{label}</h2>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      {[
+                        "Room",
+                        "Tenants",
+                        "Previous Reading",
+                        `Reading for ${formatBillingMonth(billingMonth)}`,
+                        "Units",
+                        "Bill",
+                        "",
+                      ].map((heading) => (
+                        <th
+                          key={heading}
+                          className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                        >
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {rooms.map((room) => {
+                      const bill = getBill(room);
+                      return (
+                        <tr key={room.roomId}>
+                          <td className="px-4 py-3 whitespace-nowrap font-medium">
+                            {room.roomName}
+                          </td>
+                          <td className="px-4 py-3">
+                            {room.tenants.join(", ") || (
+                              <span className="text-gray-400">Vacant</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap">
+                            {room.previous ? (
+                              <>
+                                {room.previous.reading}{" "}
+                                <span className="text-sm text-gray-500">
+                                  (
+                                  {formatBillingMonth(
+                                    room.previous.billingMonth
+                                  )}
+                                  )
+                                </span>
+                              </>
+                            ) : (
+                              <span className="text-gray-400">None</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap">
+                            <input
+                              type="number"
+                              min={room.previous?.reading ?? 0}
+                              className="w-28 p-2 border rounded-md text-sm"
+                              placeholder={
+                                room.reading ? String(room.reading.reading) : ""
+                              }
+                              value={entries[room.roomId] ?? ""}
+                              disabled={!canRecord}
+                              onChange={(e) =>
+                                setEntries((prev) => ({
+                                  ...prev,
+                                  [room.roomId]: e.target.value,
+                                }))
+                              }
+                            />
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap">
+                            {bill ? bill.units : "-"}
+                          </td>
+                          <td className="px-4 py-3">
+                            {bill ? (
+                              <>
+                                <span className="font-medium">
+                                  ₹{bill.amount}
+                                </span>
+                                {bill.detail && (
+                                  <p className="text-sm text-gray-500">
+                                    {bill.detail}
+                                  </p>
+                                )}
+                              </>
+                            ) : (
+                              "-"
+                            )}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap">
+                            {canRecord && (
+                              <button
+                                onClick={() => handleSave(room)}
+                                disabled={
+                                  savingRoomId !== null ||
+                                  !entries[room.roomId]?.trim()
+                                }
+                                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50"
+                              >
+                                {savingRoomId === room.roomId
+                                  ? "Saving..."
+                                  : room.reading
+                                    ? "Correct"
+                                    : "Save"}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 import Link from "next/link";
+import SignOutButton from "./components/sign-out-button";
 
 export default function HomePage() {
   return (
     <div className="container mx-auto p-8 max-w-6xl">
+      <div className="flex justify-end">
+        <SignOutButton />
+      </div>
+
       <div className="text-center mb-12">
         <h1 className="text-4xl font-bold mb-4">
           Brothers Lodge Management System
@@ -39,27 +44,96 @@ export default function HomePage() {
           </div>
         </Link>
 
-        <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition-shadow">
-          <h2 className="text-2xl font-semibold mb-3">Room Overview</h2>
-          <p className="text-gray-600 mb-4">
-            View all rooms and their current occupancy status
-          </p>
-          <div className="flex justify-between items-center">
-            <span className="text-blue-600">View Rooms</span>
-            <span className="text-blue-600">→</span>
+        <Link href="/rooms" className="block">
+          <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition-shadow">
+            <h2 className="text-2xl font-semibold mb-3">Room Overview</h2>
+            <p className="text-gray-600 mb-4">
+              View all rooms and their current occupancy status
+            </p>
+            <div className="flex justify-between items-center">
+              <span className="text-blue-600">View Rooms</span>
+              <span className="text-blue-600">→</span>
+            </div>
           </div>
-        </div>
+        </Link>
 
-        <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition-shadow">
-          <h2 className="text-2xl font-semibold mb-3">Rent Collection</h2>
-          <p className="text-gray-600 mb-4">
-            Track and manage rental payments from all tenants
-          </p>
-          <div className="flex justify-between items-center">
-            <span className="text-blue-600">Collect Rent</span>
-            <span className="text-blue-600">→</span>
+        <Link href="/payments" className="block">
+          <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition-shadow">
+            <h2 className="text-2xl font-semibold mb-3">Rent Collection</h2>
+            <p className="text-gray-600 mb-4">
+              Track and manage rental payments from all tenants
+            </p>
+            <div className="flex justify-between items-center">
+              <span className="text-blue-600">Collect Rent</span>
+              <span className="text-blue-600">→</span>
+            </div>
           </div>
-        </div>
+        </Link>
+
+        <Link href="/defaulters" className="block">
+          <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition-shadow">
+            <h2 className="text-2xl font-semibold mb-3">Defaulters</h2>
+            <p className="text-gray-600 mb-4">
+              See which rooms have unpaid rent and since which month
+            </p>
+            <div className="flex justify-between items-center">
+              <span className="text-blue-600">View Defaulters</span>
+              <span className="text-blue-600">→</span>
+            </div>
+          </div>
+        </Link>
+
+        <Link href="/electricity" className="block">
+          <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition-shadow">
+            <h2 className="text-2xl font-semibold mb-3">Electricity</h2>
+            <p className="text-gray-600 mb-4">
+              Enter monthly meter readings and bill each room&apos;s usage
+            </p>
+            <div className="flex justify-between items-center">
+              <span className="text-blue-600">Enter Readings</span>
+              <span className="text-blue-600">→</span>
+            </div>
+          </div>
+        </Link>
+
+        <Link href="/settings" className="block">
+          <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition-shadow">
+            <h2 className="text-2xl font-semibold mb-3">Settings</h2>
+            <p className="text-gray-600 mb-4">
+              Set the rent due day, late fee and electricity tariff
+            </p>
+            <div className="flex justify-between items-center">
+              <span className="text-blue-600">Open Settings</span>
+              <span className="text-blue-600">→</span>
+            </div>
+          </div>
+        </Link>
+
+        <Link href="/audit" className="block">
+          <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition-shadow">
+            <h2 className="text-2xl font-semibold mb-3">Audit Log</h2>
+            <p className="text-gray-600 mb-4">
+              See who changed rents, tenants and payments, and when
+            </p>
+            <div className="flex justify-between items-center">
+              <span className="text-blue-600">View Audit Log</span>
+              <span className="text-blue-600">→</span>
+            </div>
+          </div>
+        </Link>
+
+        <Link href="/trash" className="block">
+          <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition-shadow">
+            <h2 className="text-2xl font-semibold mb-3">Trash</h2>
+            <p className="text-gray-600 mb-4">
+              Restore deleted tenants and rooms before they are purged
+            </p>
+            <div className="flex justify-between items-center">
+              <span className="text-blue-600">Open Trash</span>
+              <span className="text-blue-600">→</span>
+            </div>
+          </div>
+        </Link>
       </div>
     </div>
   );
@@ -0,0 +1,664 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import Autocomplete from "../components/ui/autocomplete";
+import {
+  cn,
+  formatDate,
+  formatBillingMonth,
+  getTodayString,
+  toBillingMonth,
+} from "@/lib/utils";
+import {
+  CHARGE_TYPES,
+  ChargeType,
+  PAYMENT_METHODS,
+  PaymentMethod,
+  formatReceiptNumber,
+} from "@/lib/payments";
+import { can } from "@/lib/permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+// Define types
+interface Room {
+  id: number;
+  name: string;
+  rentAmount: number;
+  periodFrom: string;
+  periodTo: string;
+}
+
+// Define an Option type for the Autocomplete component
+interface Option {
+  id: number;
+  name: string;
+}
+
+interface Tenant {
+  id: number;
+  name: string;
+}
+
+interface Payment {
+  id: number;
+  amount: number;
+  paidOn: string;
+  billingMonth: string;
+  method: PaymentMethod;
+  collectedBy: string | null;
+  notes: string | null;
+  receiptNumber: number;
+  voidedAt: string | null;
+  voidReason: string | null;
+  roomId: number;
+  tenantId: number | null;
+  tenant: Tenant | null;
+}
+
+interface Charge {
+  id: number;
+  type: ChargeType;
+  billingMonth: string;
+  amount: number;
+  description: string | null;
+  waivedAt: string | null;
+  waivedReason: string | null;
+  waivedBy: string | null;
+}
+
+interface PaymentFormData {
+  amount: string;
+  billingMonth: string;
+  paidOn: string;
+  method: PaymentMethod;
+  tenantId: string;
+  collectedBy: string;
+  notes: string;
+}
+
+export default function PaymentsPage() {
+  const currentUser = useCurrentUser();
+  const role = currentUser?.role;
+  // State for form
+  const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
+  const [form, setForm] = useState<PaymentFormData>(createEmptyPaymentForm());
+
+  // State for data and UI
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [charges, setCharges] = useState<Charge[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Fetch rooms on component mount
+  useEffect(() => {
+    const fetchRooms = async () => {
+      try {
+        const response = await fetch("/api/rooms");
+        if (response.ok) {
+          const data = await response.json();
+          setRooms(data);
+        } else {
+          throw new Error("Failed to fetch rooms");
+        }
+      } catch (err) {
+        console.error("Error fetching rooms:", err);
+        setError("Failed to load rooms data. Please refresh the page.");
+      }
+    };
+
+    fetchRooms();
+  }, []);
+
+  // Fetch tenants, payment history and charges when a room is selected
+  const fetchRoomPayments = async (room: Room | null) => {
+    if (!room) {
+      setTenants([]);
+      setPayments([]);
+      setCharges([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [tenantsResponse, paymentsResponse, chargesResponse] =
+        await Promise.all([
+          fetch(`/api/rooms/${room.id}/tenants`),
+          fetch(`/api/payments?roomId=${room.id}`),
+          fetch(`/api/charges?roomId=${room.id}`),
+        ]);
+
+      if (!tenantsResponse.ok || !paymentsResponse.ok || !chargesResponse.ok) {
+        throw new Error("Failed to fetch payment history for this room");
+      }
+
+      setTenants(await tenantsResponse.json());
+      setPayments(await paymentsResponse.json());
+      setCharges(await chargesResponse.json());
+    } catch (err) {
+      console.error("Error fetching payments:", err);
+      setError("Failed to load payment history. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoomPayments(selectedRoom);
+    // Default the amount to the room's rent
+    setForm((prev) => ({
+      ...prev,
+      amount: selectedRoom?.rentAmount
+        ? selectedRoom.rentAmount.toString()
+        : "",
+      tenantId: "",
+    }));
+  }, [selectedRoom]);
+
+  // Helper function to create an empty payment form
+  function createEmptyPaymentForm(): PaymentFormData {
+    return {
+      amount: "",
+      billingMonth: toBillingMonth(new Date()),
+      paidOn: getTodayString(),
+      method: "CASH",
+      tenantId: "",
+      collectedBy: "",
+      notes: "",
+    };
+  }
+
+  // Update a payment form field
+  const updateForm = (field: keyof PaymentFormData, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  // Handle room selection from Autocomplete
+  const handleRoomSelect = (option: Option | null) => {
+    setSuccess(null);
+    if (option) {
+      const room = rooms.find((r) => r.id === option.id) || null;
+      setSelectedRoom(room);
+    } else {
+      setSelectedRoom(null);
+    }
+  };
+
+  // Record the payment against the selected room
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedRoom) {
+      setError("Please select a room");
+      return;
+    }
+
+    if (
+      !form.amount ||
+      isNaN(Number(form.amount)) ||
+      Number(form.amount) <= 0
+    ) {
+      setError("Please enter a valid amount");
+      return;
+    }
+
+    if (!form.billingMonth) {
+      setError("Please enter the month this payment is for");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch("/api/payments", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          roomId: selectedRoom.id,
+          amount: Number(form.amount),
+          billingMonth: form.billingMonth,
+          paidOn: form.paidOn,
+          method: form.method,
+          tenantId: form.tenantId ? Number(form.tenantId) : null,
+          collectedBy: form.collectedBy,
+          notes: form.notes,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to record payment");
+      }
+
+      const payment: Payment = await response.json();
+      setSuccess(
+        `Payment of ₹${form.amount} for ${formatBillingMonth(
+          form.billingMonth
+        )} recorded for room ${selectedRoom.name}. Receipt No. ${formatReceiptNumber(
+          payment.receiptNumber
+        )}.`
+      );
+      setForm({
+        ...createEmptyPaymentForm(),
+        amount: selectedRoom.rentAmount
+          ? selectedRoom.rentAmount.toString()
+          : "",
+        collectedBy: form.collectedBy,
+      });
+      fetchRoomPayments(selectedRoom);
+    } catch (error: unknown) {
+      console.error("Error recording payment:", error);
+      if (error instanceof Error) {
+        setError(
+          error.message || "Failed to record payment. Please try again."
+        );
+      } else {
+        setError("Failed to record payment. Please try again.");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Cancel a payment that was recorded by mistake. It stays in the history
+  // as void so its receipt number isn't reused.
+  const handleCancelPayment = async (payment: Payment) => {
+    const reason = window.prompt(
+      `Cancel receipt No. ${formatReceiptNumber(payment.receiptNumber)} for ₹${
+        payment.amount
+      } (${formatBillingMonth(payment.billingMonth)})? Enter a reason:`
+    );
+
+    if (reason === null) return;
+
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(
+        `/api/payments/${payment.id}?reason=${encodeURIComponent(reason)}`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to cancel payment");
+      }
+
+      setSuccess("Payment cancelled successfully");
+      fetchRoomPayments(selectedRoom);
+    } catch (error) {
+      console.error("Error cancelling payment:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to cancel payment"
+      );
+    }
+  };
+
+  const handleWaiveCharge = async (charge: Charge) => {
+    const reason = window.prompt(
+      `Waive the ${CHARGE_TYPES[charge.type].toLowerCase()} of ₹${
+        charge.amount
+      } for ${formatBillingMonth(charge.billingMonth)}? Enter a reason:`
+    );
+
+    if (reason === null) return;
+
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(`/api/charges/${charge.id}/waive`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to waive charge");
+      }
+
+      setSuccess("Charge waived successfully");
+      fetchRoomPayments(selectedRoom);
+    } catch (error) {
+      console.error("Error waiving charge:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to waive charge"
+      );
+    }
+  };
+
+  const totalCollected = payments
+    .filter((payment) => !payment.voidedAt)
+    .reduce((sum, payment) => sum + payment.amount, 0);
+
+  return (
+    <div className="container mx-auto p-4 max-w-7xl">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Rent Collection</h1>
+        <Link
+          href="/tenants/table"
+          className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors duration-200"
+        >
+          View Registry
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Form Section */}
+        <div>
+          <div className="bg-white p-6 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold mb-6">Record Payment</h2>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <Autocomplete
+                options={rooms}
+                value={selectedRoom}
+                onChange={handleRoomSelect}
+                label="Room Number"
+                required
+                placeholder="Select a room..."
+              />
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Amount (₹) <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  className="w-full p-2 border rounded-md"
+                  value={form.amount}
+                  onChange={(e) => updateForm("amount", e.target.value)}
+                  min="1"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Billing Month <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="month"
+                  className="w-full p-2 border rounded-md"
+                  value={form.billingMonth}
+                  onChange={(e) => updateForm("billingMonth", e.target.value)}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Paid On <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  className="w-full p-2 border rounded-md"
+                  value={form.paidOn}
+                  onChange={(e) => updateForm("paidOn", e.target.value)}
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Payment Method <span className="text-red-500">*</span>
+                </label>
+                <select
+                  className="w-full p-2 border rounded-md bg-white"
+                  value={form.method}
+                  onChange={(e) => updateForm("method", e.target.value)}
+                >
+                  {Object.entries(PAYMENT_METHODS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Paid By
+                </label>
+                <select
+                  className="w-full p-2 border rounded-md bg-white"
+                  value={form.tenantId}
+                  onChange={(e) => updateForm("tenantId", e.target.value)}
+                  disabled={tenants.length === 0}
+                >
+                  <option value="">Whole room</option>
+                  {tenants.map((tenant) => (
+                    <option key={tenant.id} value={tenant.id}>
+                      {tenant.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Collected By
+                </label>
+                <input
+                  type="text"
+                  className="w-full p-2 border rounded-md"
+                  value={form.collectedBy}
+                  onChange={(e) => updateForm("collectedBy", e.target.value)}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Notes
+                </label>
+                <textarea
+                  className="w-full p-2 border rounded-md"
+                  rows={2}
+                  value={form.notes}
+                  onChange={(e) => updateForm("notes", e.target.value)}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={submitting || !can(role, "payments:write")}
+                className="w-full px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {submitting ? "Recording..." : "Record Payment"}
+              </button>
+
+              {error && (
+                <div className="bg-red-100 text-red-700 p-3 rounded-md">
+                  {error}
+                </div>
+              )}
+
+              {success && (
+                <div className="bg-green-100 text-green-700 p-3 rounded-md">
+                  {success}
+                </div>
+              )}
+            </form>
+          </div>
+        </div>
+
+        {/* Payment History Section */}
+        <div className="lg:col-span-2">
+          <div className="bg-white p-6 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold mb-6">
+              {selectedRoom
+                ? `Payment History for ${selectedRoom.name}`
+                : "Select a Room"}
+            </h2>
+
+            {selectedRoom && (
+              <p className="mb-4 font-medium">
+                Room Rent: ₹{selectedRoom.rentAmount?.toString() || "0"} · Total
+                Collected: ₹{totalCollected}
+              </p>
+            )}
+
+            {loading ? (
+              <p className="text-gray-500">Loading payments...</p>
+            ) : !selectedRoom ? (
+              <p className="text-gray-500">
+                Please select a room to view its payment history.
+              </p>
+            ) : payments.length === 0 ? (
+              <p className="text-gray-500">
+                No payments recorded for this room.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      {[
+                        "Receipt No.",
+                        "Month",
+                        "Amount",
+                        "Paid On",
+                        "Method",
+                        "Paid By",
+                        "Collected By",
+                        "",
+                      ].map((heading) => (
+                        <th
+                          key={heading}
+                          className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                        >
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {payments.map((payment) => (
+                      <tr
+                        key={payment.id}
+                        className={
+                          payment.voidedAt ? "text-gray-400" : undefined
+                        }
+                        title={
+                          payment.voidedAt
+                            ? `Cancelled on ${formatDate(
+                                new Date(payment.voidedAt)
+                              )}${payment.voidReason ? `: ${payment.voidReason}` : ""}`
+                            : undefined
+                        }
+                      >
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {formatReceiptNumber(payment.receiptNumber)}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {formatBillingMonth(payment.billingMonth)}
+                        </td>
+                        <td
+                          className={cn(
+                            "px-4 py-3 whitespace-nowrap text-right",
+                            payment.voidedAt && "line-through"
+                          )}
+                        >
+                          ₹{payment.amount}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {formatDate(new Date(payment.paidOn))}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {PAYMENT_METHODS[payment.method]}
+                        </td>
+                        <td className="px-4 py-3">
+                          {payment.tenant?.name || "Whole room"}
+                        </td>
+                        <td className="px-4 py-3">
+                          {payment.collectedBy || "-"}
+                        </td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap">
+                          <a
+                            href={`/api/payments/${payment.id}/receipt`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            Receipt
+                          </a>
+                          {payment.voidedAt ? (
+                            <span className="ml-3 text-red-500">Void</span>
+                          ) : (
+                            can(role, "payments:write") && (
+                              <button
+                                onClick={() => handleCancelPayment(payment)}
+                                className="ml-3 text-red-500 hover:text-red-700"
+                                title={payment.notes || "Cancel payment"}
+                              >
+                                Cancel
+                              </button>
+                            )
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {selectedRoom && !loading && charges.length > 0 && (
+              <div className="mt-8">
+                <h3 className="text-lg font-semibold mb-4">Charges</h3>
+                <ul className="divide-y divide-gray-200">
+                  {charges.map((charge) => (
+                    <li
+                      key={charge.id}
+                      className="py-3 flex justify-between items-start gap-4"
+                    >
+                      <div className={charge.waivedAt ? "text-gray-400" : ""}>
+                        <p className="font-medium">
+                          {CHARGE_TYPES[charge.type]} ·{" "}
+                          {formatBillingMonth(charge.billingMonth)} ·{" "}
+                          <span
+                            className={cn(charge.waivedAt && "line-through")}
+                          >
+                            ₹{charge.amount}
+                          </span>
+                        </p>
+                        {charge.description && (
+                          <p className="text-sm text-gray-500">
+                            {charge.description}
+                          </p>
+                        )}
+                        {charge.waivedAt && (
+                          <p className="text-sm">
+                            Waived on {formatDate(new Date(charge.waivedAt))}
+                            {charge.waivedBy && ` by ${charge.waivedBy}`}
+                            {charge.waivedReason && `: ${charge.waivedReason}`}
+                          </p>
+                        )}
+                      </div>
+                      {!charge.waivedAt && can(role, "payments:write") && (
+                        <button
+                          onClick={() => handleWaiveCharge(charge)}
+                          className="text-red-500 hover:text-red-700 whitespace-nowrap"
+                        >
+                          Waive
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
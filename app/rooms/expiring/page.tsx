@@ -0,0 +1,257 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { cn, formatDate } from "@/lib/utils";
+import {
+  EXPIRING_SOON_DAYS,
+  LEASE_TERM_MONTHS,
+  getRenewedPeriod,
+} from "@/lib/rooms";
+import { can } from "@/lib/permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+interface Tenant {
+  id: number;
+  name: string;
+}
+
+interface Room {
+  id: number;
+  name: string;
+  rentAmount: number;
+  periodFrom: string;
+  periodTo: string;
+  tenants: Tenant[];
+}
+
+// Windows the list can be narrowed or widened to, in days
+const WINDOW_OPTIONS = [7, 15, EXPIRING_SOON_DAYS, 60, 90];
+
+// Whole days from today until a date, negative once it has passed
+function daysUntil(date: string): number {
+  return Math.ceil(
+    (new Date(date).getTime() - new Date().getTime()) / (1000 * 3600 * 24)
+  );
+}
+
+export default function ExpiringRoomsPage() {
+  const currentUser = useCurrentUser();
+  const role = currentUser?.role;
+  const [days, setDays] = useState(EXPIRING_SOON_DAYS);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  // New rent entered for each room, by room ID; empty keeps the current rent
+  const [newRents, setNewRents] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [renewingRoomId, setRenewingRoomId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchRooms = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/rooms/expiring?days=${days}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch expiring rooms");
+      }
+      setRooms(await response.json());
+    } catch (err) {
+      console.error("Error fetching expiring rooms:", err);
+      setError("Failed to load rooms. Please refresh the page.");
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchRooms();
+  }, [fetchRooms]);
+
+  // Roll the room's period forward by one lease term
+  const handleRenew = async (room: Room) => {
+    const newRent = newRents[room.id]?.trim();
+    const { periodFrom, periodTo } = getRenewedPeriod(room.periodTo);
+
+    const confirmRenew = window.confirm(
+      `Renew room ${room.name} from ${formatDate(periodFrom)} to ${formatDate(
+        periodTo
+      )} at ₹${newRent || room.rentAmount} per month?`
+    );
+    if (!confirmRenew) return;
+
+    setRenewingRoomId(room.id);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(`/api/rooms/${room.id}/renew`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rentAmount: newRent ? Number(newRent) : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to renew room");
+      }
+
+      setSuccess(
+        `Room ${room.name} renewed until ${formatDate(periodTo)} successfully.`
+      );
+      setNewRents((prev) => ({ ...prev, [room.id]: "" }));
+      fetchRooms();
+    } catch (error) {
+      console.error("Error renewing room:", error);
+      setError(error instanceof Error ? error.message : "Failed to renew room");
+    } finally {
+      setRenewingRoomId(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-7xl">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Expiring Soon</h1>
+          <p className="text-gray-600 mt-1">
+            Occupied rooms whose period ends within the chosen number of days.
+            Renewing extends the period by {LEASE_TERM_MONTHS} months.
+          </p>
+        </div>
+        <Link
+          href="/rooms"
+          className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors duration-200"
+        >
+          Room Overview
+        </Link>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        <div className="flex items-center gap-3 mb-6">
+          <label htmlFor="window" className="text-sm font-medium text-gray-700">
+            Ending within
+          </label>
+          <select
+            id="window"
+            className="p-2 border rounded-md bg-white"
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+          >
+            {WINDOW_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option} days
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 text-red-700 p-3 rounded-md mb-4">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-100 text-green-700 p-3 rounded-md mb-4">
+            {success}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500">Loading rooms...</p>
+        ) : rooms.length === 0 ? (
+          <p className="text-gray-500">
+            No occupied room&apos;s period ends within {days} days.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="bg-gray-50">
+                  {[
+                    "Room",
+                    "Tenants",
+                    "Rent",
+                    "Period",
+                    "Ends In",
+                    can(role, "rooms:update") ? "Renew" : "",
+                  ].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rooms.map((room) => {
+                  const daysLeft = daysUntil(room.periodTo);
+                  return (
+                    <tr key={room.id}>
+                      <td className="px-4 py-3 whitespace-nowrap font-medium">
+                        {room.name}
+                      </td>
+                      <td className="px-4 py-3">
+                        {room.tenants.map((tenant) => tenant.name).join(", ")}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        ₹{room.rentAmount}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {formatDate(new Date(room.periodFrom))} to{" "}
+                        {formatDate(new Date(room.periodTo))}
+                      </td>
+                      <td
+                        className={cn(
+                          "px-4 py-3 whitespace-nowrap",
+                          daysLeft < 0 ? "text-red-700" : "text-amber-700"
+                        )}
+                      >
+                        {daysLeft < 0
+                          ? `Ended ${-daysLeft} day(s) ago`
+                          : `${daysLeft} day(s)`}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        {can(role, "rooms:update") && (
+                          <div className="flex items-center gap-2">
+                            {can(role, "rooms:setRent") && (
+                              <input
+                                type="number"
+                                min="0"
+                                className="w-28 p-2 border rounded-md text-sm"
+                                placeholder="New rent"
+                                value={newRents[room.id] ?? ""}
+                                onChange={(e) =>
+                                  setNewRents((prev) => ({
+                                    ...prev,
+                                    [room.id]: e.target.value,
+                                  }))
+                                }
+                              />
+                            )}
+                            <button
+                              onClick={() => handleRenew(room)}
+                              disabled={renewingRoomId !== null}
+                              className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 transition-colors duration-200 disabled:opacity-50"
+                            >
+                              {renewingRoomId === room.id
+                                ? "Renewing..."
+                                : "Renew"}
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,540 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import {
+  FLOORS,
+  MAX_ROOM_CAPACITY,
+  ROOM_TYPES,
+  RoomType,
+  formatOccupancy,
+  getFloorLabel,
+  groupRoomsByFloor,
+} from "@/lib/rooms";
+import { can } from "@/lib/permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+interface Room {
+  id: number;
+  name: string;
+  floor: number;
+  number: number;
+  capacity: number;
+  type: RoomType;
+  rentAmount: number;
+  tenants: { id: number }[];
+  physicalRooms: { id: number; name: string }[];
+}
+
+interface RoomForm {
+  name: string;
+  floor: string;
+  number: string;
+  capacity: string;
+  type: RoomType;
+  rentAmount: string;
+}
+
+const EMPTY_FORM: RoomForm = {
+  name: "",
+  floor: "0",
+  number: "",
+  capacity: "2",
+  type: "STANDARD",
+  rentAmount: "",
+};
+
+export default function ManageRoomsPage() {
+  const currentUser = useCurrentUser();
+  const role = currentUser?.role;
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [loading, setLoading] = useState(true);
+  // The room being edited, or null when adding a new room
+  const [editingRoom, setEditingRoom] = useState<Room | null>(null);
+  const [form, setForm] = useState<RoomForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  // Vacant rooms ticked to be let together as one unit
+  const [mergeIds, setMergeIds] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchRooms = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/rooms?include=tenants");
+      if (!response.ok) {
+        throw new Error("Failed to fetch rooms");
+      }
+      setRooms(await response.json());
+    } catch (err) {
+      console.error("Error fetching rooms:", err);
+      setError("Failed to load rooms. Please refresh the page.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRooms();
+  }, []);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleEdit = (room: Room) => {
+    setEditingRoom(room);
+    setForm({
+      name: room.name,
+      floor: String(room.floor),
+      number: String(room.number),
+      capacity: String(room.capacity),
+      type: room.type,
+      rentAmount: String(room.rentAmount),
+    });
+    setError(null);
+    setSuccess(null);
+  };
+
+  const handleCancel = () => {
+    setEditingRoom(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    // The rent is changed from the room overview, with its own checks
+    const body = {
+      name: form.name,
+      floor: Number(form.floor),
+      number: Number(form.number),
+      capacity: Number(form.capacity),
+      type: form.type,
+      rentAmount:
+        !editingRoom && form.rentAmount !== ""
+          ? Number(form.rentAmount)
+          : undefined,
+    };
+
+    try {
+      const response = await fetch(
+        editingRoom ? `/api/rooms/${editingRoom.id}` : "/api/rooms",
+        {
+          method: editingRoom ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save room");
+      }
+
+      const room = await response.json();
+      setSuccess(
+        editingRoom ? `Room ${room.name} updated.` : `Room ${room.name} added.`
+      );
+      setEditingRoom(null);
+      setForm(EMPTY_FORM);
+      fetchRooms();
+    } catch (err) {
+      console.error("Error saving room:", err);
+      setError(err instanceof Error ? err.message : "Failed to save room");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleMerge = (roomId: number) => {
+    setMergeIds((prev) =>
+      prev.includes(roomId)
+        ? prev.filter((id) => id !== roomId)
+        : [...prev, roomId]
+    );
+  };
+
+  // Let the ticked rooms together as one unit
+  const handleMerge = async () => {
+    const names = rooms
+      .filter((room) => mergeIds.includes(room.id))
+      .map((room) => room.name)
+      .join(", ");
+    const confirmMerge = window.confirm(
+      `Let ${names} together as one room? Their past tenants and payments stay with the rooms they were recorded against.`
+    );
+    if (!confirmMerge) return;
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch("/api/rooms/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ roomIds: mergeIds }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to merge rooms");
+      }
+
+      const room = await response.json();
+      setSuccess(`${names} are now let together as room ${room.name}.`);
+      setMergeIds([]);
+      fetchRooms();
+    } catch (err) {
+      console.error("Error merging rooms:", err);
+      setError(err instanceof Error ? err.message : "Failed to merge rooms");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Let each physical room of a unit on its own again
+  const handleSplit = async (room: Room) => {
+    const confirmSplit = window.confirm(
+      `Split room ${room.name} into ${room.physicalRooms
+        .map((physicalRoom) => physicalRoom.name)
+        .join(", ")}? Its past tenants and payments stay with ${room.name}.`
+    );
+    if (!confirmSplit) return;
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(`/api/rooms/${room.id}/split`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to split room");
+      }
+
+      const units: Room[] = await response.json();
+      setSuccess(
+        `Room ${room.name} split into ${units.map((unit) => unit.name).join(", ")}. Check their beds and rent.`
+      );
+      setMergeIds((prev) => prev.filter((id) => id !== room.id));
+      fetchRooms();
+    } catch (err) {
+      console.error("Error splitting room:", err);
+      setError(err instanceof Error ? err.message : "Failed to split room");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (currentUser && !can(role, "rooms:update")) {
+    return (
+      <div className="container mx-auto p-4 max-w-7xl">
+        <div className="bg-amber-50 text-amber-800 p-3 rounded-md border border-amber-200">
+          Only the owner and managers can manage rooms.
+        </div>
+      </div>
+    );
+  }
+
+  const canCreate = can(role, "rooms:create");
+  const showForm = editingRoom !== null || canCreate;
+
+  // The named floors, plus any other floor a room is already on
+  const floorOptions = [
+    ...new Set([
+      ...Object.keys(FLOORS).map(Number),
+      ...rooms.map((room) => room.floor),
+    ]),
+  ].sort((a, b) => a - b);
+
+  return (
+    <div className="container mx-auto p-4 max-w-7xl">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Manage Rooms</h1>
+          <p className="text-gray-600 mt-1">
+            Add rooms, set their floor, number, beds and type, and merge or
+            split them
+          </p>
+        </div>
+        <Link
+          href="/rooms"
+          className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors duration-200"
+        >
+          Room Overview
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 text-red-700 p-3 rounded-md mb-4">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-100 text-green-700 p-3 rounded-md mb-4">
+          {success}
+        </div>
+      )}
+
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white p-6 rounded-lg shadow-md mb-8"
+        >
+          <h2 className="text-xl font-semibold mb-4">
+            {editingRoom ? `Edit Room ${editingRoom.name}` : "Add a Room"}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                name="name"
+                className="w-full p-2 border rounded-md"
+                placeholder="e.g. F13"
+                value={form.name}
+                onChange={handleChange}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Floor
+              </label>
+              <select
+                name="floor"
+                className="w-full p-2 border rounded-md bg-white"
+                value={form.floor}
+                onChange={handleChange}
+              >
+                {floorOptions.map((floor) => (
+                  <option key={floor} value={floor}>
+                    {getFloorLabel(floor)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Room Number
+              </label>
+              <input
+                name="number"
+                type="number"
+                min={0}
+                className="w-full p-2 border rounded-md"
+                value={form.number}
+                onChange={handleChange}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Beds
+              </label>
+              <input
+                name="capacity"
+                type="number"
+                min={1}
+                max={MAX_ROOM_CAPACITY}
+                className="w-full p-2 border rounded-md"
+                value={form.capacity}
+                onChange={handleChange}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Type
+              </label>
+              <select
+                name="type"
+                className="w-full p-2 border rounded-md bg-white"
+                value={form.type}
+                onChange={handleChange}
+              >
+                {(Object.keys(ROOM_TYPES) as RoomType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {ROOM_TYPES[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {!editingRoom && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Monthly Rent (₹)
+                </label>
+                <input
+                  name="rentAmount"
+                  type="number"
+                  min={0}
+                  className="w-full p-2 border rounded-md"
+                  value={form.rentAmount}
+                  onChange={handleChange}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-3 mt-6">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : editingRoom ? "Save Room" : "Add Room"}
+            </button>
+            {editingRoom && (
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow-md">
+        {canCreate && (
+          <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+            <p className="text-sm text-gray-600">
+              Tick vacant rooms to let them together as one room, or split a
+              room back into the physical rooms it covers.
+            </p>
+            <button
+              onClick={handleMerge}
+              disabled={saving || mergeIds.length < 2}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50"
+            >
+              Merge Selected ({mergeIds.length})
+            </button>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500">Loading rooms...</p>
+        ) : rooms.length === 0 ? (
+          <p className="text-gray-500">No rooms found.</p>
+        ) : (
+          groupRoomsByFloor(rooms).map(
+            ({ floor, label, rooms: floorRooms }) => (
+              <div key={floor} className="mb-8 last:mb-0">
+                <h2 className="text-xl font-semibold mb-4">{label}</h2>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead>
+                      <tr className="bg-gray-50">
+                        {[
+                          ...(canCreate ? ["Merge"] : []),
+                          "Room",
+                          "Number",
+                          "Type",
+                          "Occupancy",
+                          "",
+                        ].map((heading) => (
+                          <th
+                            key={heading}
+                            className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                          >
+                            {heading}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {floorRooms.map((room) => (
+                        <tr key={room.id}>
+                          {canCreate && (
+                            <td className="px-4 py-3">
+                              <input
+                                type="checkbox"
+                                checked={mergeIds.includes(room.id)}
+                                onChange={() => toggleMerge(room.id)}
+                                disabled={room.tenants.length > 0}
+                                title={
+                                  room.tenants.length > 0
+                                    ? "Only vacant rooms can be merged"
+                                    : "Merge with other rooms"
+                                }
+                              />
+                            </td>
+                          )}
+                          <td className="px-4 py-3 whitespace-nowrap font-medium">
+                            {room.name}
+                            {room.physicalRooms.length > 1 && (
+                              <div className="text-xs font-normal text-gray-500">
+                                Covers{" "}
+                                {room.physicalRooms
+                                  .map((physicalRoom) => physicalRoom.name)
+                                  .join(", ")}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap">
+                            {room.number}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap">
+                            {ROOM_TYPES[room.type]}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap">
+                            {formatOccupancy(
+                              room.tenants.length,
+                              room.capacity
+                            )}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap">
+                            <button
+                              onClick={() => handleEdit(room)}
+                              className="px-3 py-1.5 text-sm font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 transition-colors duration-200"
+                            >
+                              Edit
+                            </button>
+                            {canCreate && room.physicalRooms.length > 1 && (
+                              <button
+                                onClick={() => handleSplit(room)}
+                                disabled={saving || room.tenants.length > 0}
+                                className="ml-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors duration-200 disabled:opacity-50"
+                                title={
+                                  room.tenants.length > 0
+                                    ? "Only vacant rooms can be split"
+                                    : "Let each physical room on its own"
+                                }
+                              >
+                                Split
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )
+          )
+        )}
+      </div>
+    </div>
+  );
+}
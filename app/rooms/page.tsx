@@ -0,0 +1,669 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Check } from "lucide-react";
+import { cn, formatDate, toISODateString } from "@/lib/utils";
+import {
+  ROOM_TYPES,
+  RoomStatus,
+  RoomType,
+  EXPIRING_SOON_DAYS,
+  LEASE_TERM_MONTHS,
+  compareRooms,
+  formatOccupancy,
+  getRenewedPeriod,
+  getRoomStatus,
+  groupRoomsByFloor,
+} from "@/lib/rooms";
+import { can } from "@/lib/permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import DepositPanel from "../components/deposit-panel";
+
+// Define types
+interface Tenant {
+  id: number;
+  name: string;
+  fatherName: string;
+  phoneNumber: string;
+  villageName: string;
+  district: string;
+  state: string;
+}
+
+interface Room {
+  id: number;
+  name: string;
+  floor: number;
+  number: number;
+  capacity: number;
+  type: RoomType;
+  rentAmount: number;
+  periodFrom: string;
+  periodTo: string;
+  tenants: Tenant[];
+  physicalRooms: { id: number; name: string }[];
+}
+
+// A previous rental period of a room
+interface RoomPeriod {
+  id: number;
+  periodFrom: string;
+  periodTo: string;
+  rentAmount: number;
+}
+
+// Tile colours for each occupancy status
+const STATUS_STYLES: Record<RoomStatus, { tile: string; label: string }> = {
+  vacant: {
+    tile: "bg-gray-50 border-gray-300 text-gray-700",
+    label: "Vacant",
+  },
+  occupied: {
+    tile: "bg-emerald-50 border-emerald-400 text-emerald-900",
+    label: "Occupied",
+  },
+  expiring: {
+    tile: "bg-amber-50 border-amber-400 text-amber-900",
+    label: "Expiring Soon",
+  },
+};
+
+export default function RoomsPage() {
+  const currentUser = useCurrentUser();
+  const role = currentUser?.role;
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
+  const [roomPeriods, setRoomPeriods] = useState<RoomPeriod[]>([]);
+  const [loadingRoom, setLoadingRoom] = useState(false);
+  const [actionSuccess, setActionSuccess] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [processingAction, setProcessingAction] = useState(false);
+
+  // Fetch all rooms with their current tenants
+  const fetchRooms = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/rooms?include=tenants");
+      if (!response.ok) {
+        throw new Error("Failed to fetch rooms");
+      }
+
+      const data: Room[] = await response.json();
+      setRooms(data.sort(compareRooms));
+      setError(null);
+    } catch (err) {
+      console.error("Error fetching rooms:", err);
+      setError("Failed to load rooms. Please refresh the page.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRooms();
+  }, []);
+
+  // Open a room's details, fetching its latest tenants
+  const handleOpenRoom = async (roomId: number) => {
+    setActionError(null);
+    setActionSuccess(null);
+    setLoadingRoom(true);
+    try {
+      const [response, periodsResponse] = await Promise.all([
+        fetch(`/api/rooms/${roomId}`),
+        fetch(`/api/rooms/${roomId}/periods`),
+      ]);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch room");
+      }
+      setSelectedRoom(await response.json());
+      setRoomPeriods(periodsResponse.ok ? await periodsResponse.json() : []);
+    } catch (error) {
+      console.error("Error fetching room:", error);
+      setActionError(
+        error instanceof Error ? error.message : "Failed to fetch room"
+      );
+    } finally {
+      setLoadingRoom(false);
+    }
+  };
+
+  const closeRoomModal = () => {
+    setSelectedRoom(null);
+    setRoomPeriods([]);
+    setActionError(null);
+    setActionSuccess(null);
+  };
+
+  // Update the room's rent and period
+  const handleRoomUpdate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!selectedRoom) return;
+
+    const formData = new FormData(e.currentTarget);
+    const rentAmount = parseInt(formData.get("rentAmount") as string);
+    const periodFrom = formData.get("periodFrom") as string;
+    const periodTo = formData.get("periodTo") as string;
+
+    if (isNaN(rentAmount) || !periodFrom || !periodTo) {
+      setActionError("Please fill all required fields with valid data");
+      return;
+    }
+
+    setProcessingAction(true);
+    setActionError(null);
+    setActionSuccess(null);
+    try {
+      const response = await fetch(`/api/rooms/${selectedRoom.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ rentAmount, periodFrom, periodTo }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to update room");
+      }
+
+      setActionSuccess("Room details updated successfully");
+      await handleOpenRoom(selectedRoom.id);
+      fetchRooms();
+    } catch (error) {
+      console.error("Error updating room:", error);
+      setActionError(
+        error instanceof Error ? error.message : "Failed to update room"
+      );
+    } finally {
+      setProcessingAction(false);
+    }
+  };
+
+  // Extend the room's period by one lease term, keeping the current rent
+  const handleRenewRoom = async () => {
+    if (!selectedRoom) return;
+
+    const { periodFrom, periodTo } = getRenewedPeriod(selectedRoom.periodTo);
+    const confirmRenew = window.confirm(
+      `Renew room ${selectedRoom.name} from ${formatDate(
+        periodFrom
+      )} to ${formatDate(periodTo)}? To change the rent as well, use the Expiring Soon page.`
+    );
+    if (!confirmRenew) return;
+
+    setProcessingAction(true);
+    setActionError(null);
+    setActionSuccess(null);
+    try {
+      const response = await fetch(`/api/rooms/${selectedRoom.id}/renew`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to renew room");
+      }
+
+      setActionSuccess(
+        `Room renewed until ${formatDate(periodTo)} successfully`
+      );
+      await handleOpenRoom(selectedRoom.id);
+      fetchRooms();
+    } catch (error) {
+      console.error("Error renewing room:", error);
+      setActionError(
+        error instanceof Error ? error.message : "Failed to renew room"
+      );
+    } finally {
+      setProcessingAction(false);
+    }
+  };
+
+  // Move all tenants out of the room
+  const handleEmptyRoom = async () => {
+    if (!selectedRoom) return;
+
+    const confirmEmpty = window.confirm(
+      `Are you sure you want to empty room ${selectedRoom.name}? All tenants will be moved out and kept in the room's past tenants.`
+    );
+    if (!confirmEmpty) return;
+
+    setProcessingAction(true);
+    setActionError(null);
+    setActionSuccess(null);
+    try {
+      const response = await fetch(`/api/rooms/${selectedRoom.id}/tenants`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to empty room");
+      }
+
+      const data = await response.json();
+      setActionSuccess(
+        `Room ${selectedRoom.name} emptied successfully. ${data.count} tenant(s) moved out.${
+          data.depositHeld > 0
+            ? ` ₹${data.depositHeld} of security deposit is still owed back.`
+            : ""
+        }`
+      );
+      await handleOpenRoom(selectedRoom.id);
+      fetchRooms();
+    } catch (error) {
+      console.error("Error emptying room:", error);
+      setActionError(
+        error instanceof Error ? error.message : "Failed to empty room"
+      );
+    } finally {
+      setProcessingAction(false);
+    }
+  };
+
+  // Delete a vacant room
+  const handleDeleteRoom = async () => {
+    if (!selectedRoom) return;
+
+    const confirmDelete = window.confirm(
+      `Move room ${selectedRoom.name} to the trash? It can be restored from the trash until it is purged.`
+    );
+    if (!confirmDelete) return;
+
+    setProcessingAction(true);
+    setActionError(null);
+    try {
+      const response = await fetch(`/api/rooms/${selectedRoom.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete room");
+      }
+
+      closeRoomModal();
+      fetchRooms();
+    } catch (error) {
+      console.error("Error deleting room:", error);
+      setActionError(
+        error instanceof Error ? error.message : "Failed to delete room"
+      );
+    } finally {
+      setProcessingAction(false);
+    }
+  };
+
+  const roomsByFloor = groupRoomsByFloor(rooms);
+
+  const occupiedCount = rooms.filter((room) => room.tenants.length > 0).length;
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Room Overview</h1>
+          {!loading && !error && (
+            <p className="text-gray-600 mt-1">
+              {occupiedCount} of {rooms.length} rooms occupied
+            </p>
+          )}
+        </div>
+        <div className="flex gap-3">
+          <Link
+            href="/rooms/expiring"
+            className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors duration-200"
+          >
+            Expiring Soon
+          </Link>
+          <Link
+            href="/tenants/table"
+            className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors duration-200"
+          >
+            View Registry
+          </Link>
+          {can(role, "tenants:write") && (
+            <Link
+              href="/tenants"
+              className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors duration-200"
+            >
+              Manage Tenants
+            </Link>
+          )}
+          {can(role, "rooms:update") && (
+            <Link
+              href="/rooms/manage"
+              className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+            >
+              Manage Rooms
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 mb-8 text-sm">
+        {(Object.keys(STATUS_STYLES) as RoomStatus[]).map((status) => (
+          <div key={status} className="flex items-center gap-2">
+            <span
+              className={cn(
+                "inline-block w-4 h-4 rounded border-2",
+                STATUS_STYLES[status].tile
+              )}
+            />
+            <span className="text-gray-700">
+              {STATUS_STYLES[status].label}
+              {status === "expiring" && ` (within ${EXPIRING_SOON_DAYS} days)`}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {actionError && !selectedRoom && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-lg mb-6 border border-red-200">
+          {actionError}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto mb-4"></div>
+          <p className="text-lg text-gray-600">Loading rooms...</p>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 text-red-700 p-4 rounded-lg border border-red-200">
+          {error}
+        </div>
+      ) : (
+        <div className="space-y-10">
+          {roomsByFloor.map((group) => (
+            <section key={group.floor}>
+              <h2 className="text-xl font-semibold mb-4">{group.label}</h2>
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                {group.rooms.map((room) => {
+                  const status = getRoomStatus(
+                    room.tenants.length,
+                    room.periodTo
+                  );
+                  return (
+                    <button
+                      key={room.id}
+                      onClick={() => handleOpenRoom(room.id)}
+                      disabled={loadingRoom}
+                      className={cn(
+                        "text-left p-4 rounded-lg border-2 shadow-sm hover:shadow-md transition-shadow",
+                        STATUS_STYLES[status].tile
+                      )}
+                    >
+                      <div className="font-bold text-lg mb-1">{room.name}</div>
+                      {room.physicalRooms.length > 1 && (
+                        <div className="text-xs mb-1">
+                          {room.physicalRooms.length} rooms let together
+                        </div>
+                      )}
+                      <div className="text-sm">
+                        {formatOccupancy(room.tenants.length, room.capacity)}
+                      </div>
+                      <div className="text-sm">
+                        {room.rentAmount ? `₹${room.rentAmount}` : "-"}
+                      </div>
+                      {room.tenants.length > 0 && (
+                        <div className="text-xs mt-1">
+                          Until {formatDate(new Date(room.periodTo))}
+                        </div>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+
+      {/* Room Details Modal */}
+      {selectedRoom && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto mx-4">
+            <div className="flex justify-between items-center mb-6">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">
+                  Room {selectedRoom.name}
+                </h2>
+                <p className="text-sm text-gray-500">
+                  {ROOM_TYPES[selectedRoom.type]}
+                  {selectedRoom.physicalRooms.length > 1 &&
+                    ` · Covers ${selectedRoom.physicalRooms
+                      .map((physicalRoom) => physicalRoom.name)
+                      .join(", ")}`}
+                </p>
+              </div>
+              <button
+                onClick={closeRoomModal}
+                className="text-gray-500 hover:text-gray-700 focus:outline-none"
+              >
+                <span className="sr-only">Close</span>
+                <svg
+                  className="h-6 w-6"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+
+            {actionSuccess && (
+              <div className="bg-emerald-50 text-emerald-700 p-4 rounded-lg mb-4 border border-emerald-200 flex items-center gap-2">
+                <Check className="w-5 h-5" />
+                <span>{actionSuccess}</span>
+              </div>
+            )}
+
+            {actionError && (
+              <div className="bg-red-50 text-red-700 p-4 rounded-lg mb-4 border border-red-200">
+                {actionError}
+              </div>
+            )}
+
+            {/* Tenants */}
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="font-semibold text-gray-900">
+                Tenants (
+                {formatOccupancy(
+                  selectedRoom.tenants.length,
+                  selectedRoom.capacity
+                )}
+                )
+              </h3>
+              {selectedRoom.tenants.length > 0 &&
+                can(role, "tenants:revealAadhar") && (
+                  <a
+                    href={`/api/rooms/${selectedRoom.id}/police-verification`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    Police Verification Forms
+                  </a>
+                )}
+            </div>
+            {selectedRoom.tenants.length === 0 ? (
+              <p className="text-gray-500 mb-6">This room is vacant.</p>
+            ) : (
+              <div className="space-y-3 mb-6">
+                {selectedRoom.tenants.map((tenant) => (
+                  <div
+                    key={tenant.id}
+                    className="border border-gray-200 rounded-lg p-3 text-sm"
+                  >
+                    <div className="font-medium text-gray-900">
+                      {tenant.name}
+                    </div>
+                    <div className="text-gray-600">
+                      Father: {tenant.fatherName} · Phone: {tenant.phoneNumber}
+                    </div>
+                    <div className="text-gray-600">
+                      {tenant.villageName}, {tenant.district}, {tenant.state}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Previous Periods */}
+            {roomPeriods.length > 0 && (
+              <div className="mb-6">
+                <h3 className="font-semibold text-gray-900 mb-3">
+                  Previous Periods
+                </h3>
+                <ul className="text-sm text-gray-600 space-y-1">
+                  {roomPeriods.map((period) => (
+                    <li key={period.id}>
+                      {formatDate(new Date(period.periodFrom))} to{" "}
+                      {formatDate(new Date(period.periodTo))} · ₹
+                      {period.rentAmount}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="mb-6">
+              <DepositPanel
+                key={selectedRoom.id}
+                roomId={selectedRoom.id}
+                tenants={selectedRoom.tenants}
+              />
+            </div>
+
+            {/* Edit Room */}
+            {can(role, "rooms:update") && (
+              <form
+                key={selectedRoom.id + selectedRoom.periodTo}
+                onSubmit={handleRoomUpdate}
+                className="border-t border-gray-200 pt-6"
+              >
+                <h3 className="font-semibold text-gray-900 mb-3">
+                  Edit Room Details
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Rent Amount (₹) <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="number"
+                      name="rentAmount"
+                      min="0"
+                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
+                      defaultValue={selectedRoom.rentAmount}
+                      readOnly={!can(role, "rooms:setRent")}
+                      title={
+                        can(role, "rooms:setRent")
+                          ? undefined
+                          : "Only the owner can change the rent amount"
+                      }
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Period From <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="date"
+                      name="periodFrom"
+                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      defaultValue={toISODateString(
+                        new Date(selectedRoom.periodFrom)
+                      )}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Period To <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="date"
+                      name="periodTo"
+                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      defaultValue={toISODateString(
+                        new Date(selectedRoom.periodTo)
+                      )}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap justify-end mt-6 gap-3">
+                  {can(role, "tenants:write") && (
+                    <Link
+                      href="/tenants"
+                      className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 transition-colors duration-200"
+                    >
+                      Add Tenants
+                    </Link>
+                  )}
+                  {selectedRoom.tenants.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={handleRenewRoom}
+                      disabled={processingAction}
+                      title={`Extend the period by ${LEASE_TERM_MONTHS} months`}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50"
+                    >
+                      Renew
+                    </button>
+                  )}
+                  {selectedRoom.tenants.length > 0
+                    ? can(role, "tenants:write") && (
+                        <button
+                          type="button"
+                          onClick={handleEmptyRoom}
+                          disabled={processingAction}
+                          className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors duration-200 disabled:opacity-50"
+                        >
+                          Empty Room
+                        </button>
+                      )
+                    : can(role, "rooms:delete") && (
+                        <button
+                          type="button"
+                          onClick={handleDeleteRoom}
+                          disabled={processingAction}
+                          className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors duration-200 disabled:opacity-50"
+                        >
+                          Delete Room
+                        </button>
+                      )}
+                  <button
+                    type="submit"
+                    disabled={processingAction}
+                    className="px-4 py-2 text-sm font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 transition-colors duration-200 disabled:opacity-50"
+                  >
+                    {processingAction ? "Saving..." : "Save Room Details"}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
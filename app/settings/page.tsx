@@ -0,0 +1,305 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import {
+  ELECTRICITY_SPLITS,
+  ElectricitySplit,
+  LATE_FEE_TYPES,
+  LateFeeType,
+} from "@/lib/settings";
+import { can } from "@/lib/permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+interface SettingsFormData {
+  dueDay: string;
+  graceDays: string;
+  lateFeeType: LateFeeType;
+  lateFeeAmount: string;
+  lateFeeCap: string;
+  electricityRate: string;
+  electricitySplit: ElectricitySplit;
+}
+
+export default function SettingsPage() {
+  const currentUser = useCurrentUser();
+  const canManage = can(currentUser?.role, "settings:manage");
+  const [form, setForm] = useState<SettingsFormData | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch("/api/settings");
+        if (!response.ok) {
+          throw new Error("Failed to fetch settings");
+        }
+
+        const settings = await response.json();
+        setForm({
+          dueDay: String(settings.dueDay),
+          graceDays: String(settings.graceDays),
+          lateFeeType: settings.lateFeeType,
+          lateFeeAmount: String(settings.lateFeeAmount),
+          lateFeeCap:
+            settings.lateFeeCap !== null ? String(settings.lateFeeCap) : "",
+          electricityRate: String(settings.electricityRate),
+          electricitySplit: settings.electricitySplit,
+        });
+      } catch (err) {
+        console.error("Error fetching settings:", err);
+        setError("Failed to load settings. Please refresh the page.");
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const updateForm = (field: keyof SettingsFormData, value: string) => {
+    setForm((prev) => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setSubmitting(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          dueDay: Number(form.dueDay),
+          graceDays: Number(form.graceDays),
+          lateFeeType: form.lateFeeType,
+          lateFeeAmount: Number(form.lateFeeAmount || 0),
+          lateFeeCap: form.lateFeeCap ? Number(form.lateFeeCap) : null,
+          electricityRate: Number(form.electricityRate || 0),
+          electricitySplit: form.electricitySplit,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save settings");
+      }
+
+      setSuccess("Settings saved successfully");
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to save settings"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-7xl">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <Link
+          href="/payments"
+          className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors duration-200"
+        >
+          Rent Collection
+        </Link>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md max-w-2xl">
+        <h2 className="text-xl font-semibold mb-2">
+          Rent Due Date and Late Fee
+        </h2>
+        <p className="text-sm text-gray-600 mb-6">
+          Rent for a month is due by the due day. When it is still unpaid after
+          the grace days, a late fee is added to the room&apos;s account for
+          that month. Staff can waive a late fee from the Rent Collection page.
+        </p>
+
+        {currentUser && !canManage && (
+          <div className="bg-amber-50 text-amber-800 p-3 rounded-md mb-6 border border-amber-200">
+            Only the owner can change these settings.
+          </div>
+        )}
+
+        {!form ? (
+          error ? (
+            <div className="bg-red-100 text-red-700 p-3 rounded-md">
+              {error}
+            </div>
+          ) : (
+            <p className="text-gray-500">Loading settings...</p>
+          )
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <fieldset disabled={!canManage} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Due Day of the Month <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="28"
+                    className="w-full p-2 border rounded-md"
+                    value={form.dueDay}
+                    onChange={(e) => updateForm("dueDay", e.target.value)}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Grace Days <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="31"
+                    className="w-full p-2 border rounded-md"
+                    value={form.graceDays}
+                    onChange={(e) => updateForm("graceDays", e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Late Fee
+                </label>
+                <select
+                  className="w-full p-2 border rounded-md bg-white"
+                  value={form.lateFeeType}
+                  onChange={(e) => updateForm("lateFeeType", e.target.value)}
+                >
+                  {Object.entries(LATE_FEE_TYPES).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {form.lateFeeType !== "NONE" && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {form.lateFeeType === "FLAT"
+                        ? "Fee (₹)"
+                        : "Fee per Day (₹)"}{" "}
+                      <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      className="w-full p-2 border rounded-md"
+                      value={form.lateFeeAmount}
+                      onChange={(e) =>
+                        updateForm("lateFeeAmount", e.target.value)
+                      }
+                      required
+                    />
+                  </div>
+
+                  {form.lateFeeType === "PER_DAY" && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Maximum Fee per Month (₹)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        className="w-full p-2 border rounded-md"
+                        placeholder="No limit"
+                        value={form.lateFeeCap}
+                        onChange={(e) =>
+                          updateForm("lateFeeCap", e.target.value)
+                        }
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <h2 className="text-xl font-semibold pt-4">Electricity</h2>
+              <p className="text-sm text-gray-600">
+                Each room&apos;s sub-meter is read every month on the
+                Electricity page. Bills already calculated keep the tariff they
+                were made with.
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Rate per Unit (₹) <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="w-full p-2 border rounded-md"
+                    value={form.electricityRate}
+                    onChange={(e) =>
+                      updateForm("electricityRate", e.target.value)
+                    }
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Bill
+                  </label>
+                  <select
+                    className="w-full p-2 border rounded-md bg-white"
+                    value={form.electricitySplit}
+                    onChange={(e) =>
+                      updateForm("electricitySplit", e.target.value)
+                    }
+                  >
+                    {Object.entries(ELECTRICITY_SPLITS).map(
+                      ([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </div>
+              </div>
+            </fieldset>
+
+            {canManage && (
+              <button
+                type="submit"
+                disabled={submitting}
+                className="w-full px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {submitting ? "Saving..." : "Save Settings"}
+              </button>
+            )}
+
+            {error && (
+              <div className="bg-red-100 text-red-700 p-3 rounded-md">
+                {error}
+              </div>
+            )}
+
+            {success && (
+              <div className="bg-green-100 text-green-700 p-3 rounded-md">
+                {success}
+              </div>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
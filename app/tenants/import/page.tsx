@@ -0,0 +1,271 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import { can } from "@/lib/permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+type ImportMode = "current" | "historical";
+
+// A row of the CSV file as checked by the server
+interface PreviewRow {
+  row: number;
+  roomName: string;
+  name: string;
+  aadharNumber: string;
+  errors: string[];
+}
+
+const MODES: Record<ImportMode, { label: string; description: string }> = {
+  current: {
+    label: "New tenants",
+    description:
+      "Adds each tenant to the room in the Room No. column. Tenants already in the room stay.",
+  },
+  historical: {
+    label: "Paper register (former tenants)",
+    description:
+      "Adds former tenants to each room's past tenants. Needs Moved In and Moved Out columns, with dates like 31/12/2024.",
+  },
+};
+
+export default function ImportTenantsPage() {
+  const currentUser = useCurrentUser();
+  const role = currentUser?.role;
+  const [mode, setMode] = useState<ImportMode>("current");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState("");
+  const [preview, setPreview] = useState<PreviewRow[] | null>(null);
+  const [errorCount, setErrorCount] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Read the chosen file; the preview must be run again for a new file
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setPreview(null);
+    setError(null);
+    setSuccess(null);
+    setFileName(file?.name ?? null);
+    setCsv(file ? await file.text() : "");
+  };
+
+  const handleModeChange = (newMode: ImportMode) => {
+    setMode(newMode);
+    setPreview(null);
+  };
+
+  // Send the file to the server, either to check it or to import it
+  const submitImport = async (dryRun: boolean) => {
+    setSubmitting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch("/api/tenants/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv, mode, dryRun }),
+      });
+      const data = await response.json();
+
+      if (data.rows) {
+        setPreview(data.rows);
+        setErrorCount(data.errorCount);
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to import tenants");
+      }
+
+      if (!dryRun) {
+        setSuccess(`${data.imported} tenant(s) imported successfully!`);
+        setPreview(null);
+        setCsv("");
+        setFileName(null);
+      }
+    } catch (error) {
+      console.error("Error importing tenants:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to import tenants"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-7xl">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Import Tenants</h1>
+        <Link
+          href="/tenants/table"
+          className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors duration-200"
+        >
+          View Registry
+        </Link>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+        <h2 className="text-xl font-semibold mb-2">Upload CSV File</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          One row per tenant, with a Room No. column and the same columns as the
+          tenant form. A registry export with all columns and full Aadhar
+          numbers can be used as a template. Rent and period columns are
+          ignored.
+        </p>
+
+        {currentUser && !can(role, "tenants:write") && (
+          <div className="bg-amber-50 text-amber-800 p-3 rounded-md mb-6 border border-amber-200">
+            Your account can only view tenants. Ask the owner for access to
+            import tenants.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              CSV File <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="w-full p-2 border rounded-md"
+              onChange={handleFileChange}
+            />
+            {fileName && (
+              <p className="text-sm text-gray-500 mt-1">{fileName}</p>
+            )}
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              Import As
+            </span>
+            <div className="space-y-2">
+              {(Object.keys(MODES) as ImportMode[]).map((key) => (
+                <label key={key} className="flex items-start gap-2">
+                  <input
+                    type="radio"
+                    name="mode"
+                    className="mt-1"
+                    checked={mode === key}
+                    onChange={() => handleModeChange(key)}
+                  />
+                  <span>
+                    <span className="font-medium">{MODES[key].label}</span>
+                    <span className="block text-sm text-gray-500">
+                      {MODES[key].description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={() => submitImport(true)}
+            disabled={submitting || !csv || !can(role, "tenants:write")}
+            className="px-6 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50"
+          >
+            {submitting && !preview ? "Checking..." : "Preview"}
+          </button>
+          <button
+            type="button"
+            onClick={() => submitImport(false)}
+            disabled={
+              submitting || !preview || errorCount > 0 || preview.length === 0
+            }
+            className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {submitting && preview
+              ? "Importing..."
+              : `Import ${preview ? preview.length : ""} Tenant(s)`}
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 text-red-700 p-3 rounded-md mt-4">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-100 text-green-700 p-3 rounded-md mt-4">
+            {success}
+          </div>
+        )}
+      </div>
+
+      {preview && (
+        <div className="bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold mb-2">Preview</h2>
+          <p
+            className={cn(
+              "mb-6",
+              errorCount > 0 ? "text-red-700" : "text-green-700"
+            )}
+          >
+            {errorCount > 0
+              ? `${errorCount} of ${preview.length} row(s) have errors. Fix them in the file and preview again.`
+              : `All ${preview.length} row(s) are valid and ready to import.`}
+          </p>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="bg-gray-50">
+                  {["Row", "Room No.", "Tenant Name", "Aadhar", "Status"].map(
+                    (heading) => (
+                      <th
+                        key={heading}
+                        className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                      >
+                        {heading}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {preview.map((row) => (
+                  <tr
+                    key={row.row}
+                    className={row.errors.length > 0 ? "bg-red-50" : undefined}
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap">{row.row}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {row.roomName || "-"}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {row.name || "-"}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {row.aadharNumber || "-"}
+                    </td>
+                    <td className="px-4 py-3">
+                      {row.errors.length > 0 ? (
+                        <ul className="text-sm text-red-700 list-disc pl-4">
+                          {row.errors.map((message) => (
+                            <li key={message}>{message}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="text-sm text-green-700">OK</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,25 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import Autocomplete from "../components/ui/autocomplete";
-import { formatDate, addMonths } from "@/lib/utils";
+import { formatDate, addMonths, cn } from "@/lib/utils";
+import { LEASE_TERM_MONTHS, checkCapacity } from "@/lib/rooms";
+import {
+  validateTenant,
+  formatAadharNumber,
+  unformatAadharNumber,
+  type TenantField,
+  type TenantFieldErrors,
+} from "@/lib/tenant-schema";
+import { can } from "@/lib/permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
 
 // Define types
 interface Room {
   id: number;
   name: string;
+  capacity: number;
   rentAmount: number;
   periodFrom: string;
   periodTo: string;
@@ -53,6 +65,8 @@ interface TenantFormData {
 }
 
 export default function TenantsPage() {
+  const currentUser = useCurrentUser();
+  const role = currentUser?.role;
   // State for form
   const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
   const [tenantForms, setTenantForms] = useState<TenantFormData[]>([
@@ -62,7 +76,7 @@ export default function TenantsPage() {
     new Date().toISOString().split("T")[0]
   );
   const [periodTo, setPeriodTo] = useState<string>(
-    addMonths(new Date(), 11).toISOString().split("T")[0]
+    addMonths(new Date(), LEASE_TERM_MONTHS).toISOString().split("T")[0]
   );
   const [rentAmount, setRentAmount] = useState<string>("");
 
@@ -73,6 +87,8 @@ export default function TenantsPage() {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  // Field errors for each tenant form, in the same order as tenantForms
+  const [tenantErrors, setTenantErrors] = useState<TenantFieldErrors[]>([]);
 
   // Fetch rooms on component mount
   useEffect(() => {
@@ -163,6 +179,14 @@ export default function TenantsPage() {
     };
   }
 
+  // The tenants on the form replace the room's current ones, so they alone
+  // must fit in its beds
+  const capacityError = selectedRoom
+    ? checkCapacity(selectedRoom, tenantForms.length)
+    : null;
+  const roomIsFull =
+    selectedRoom !== null && tenantForms.length >= selectedRoom.capacity;
+
   // Add a new tenant form
   const addTenantForm = () => {
     setTenantForms([...tenantForms, createEmptyTenantForm()]);
@@ -172,13 +196,25 @@ export default function TenantsPage() {
   const removeTenantForm = (index: number) => {
     if (tenantForms.length > 1) {
       setTenantForms(tenantForms.filter((_, i) => i !== index));
+      setTenantErrors(tenantErrors.filter((_, i) => i !== index));
     }
   };
 
   // Update a tenant form field
-  const updateTenantForm = (index: number, field: string, value: string) => {
+  const updateTenantForm = (
+    index: number,
+    field: TenantField,
+    value: string
+  ) => {
     const updatedForms = [...tenantForms];
 
+    // Clear the error for this field once it is edited
+    if (tenantErrors[index]?.[field]) {
+      const updatedErrors = [...tenantErrors];
+      updatedErrors[index] = { ...updatedErrors[index], [field]: undefined };
+      setTenantErrors(updatedErrors);
+    }
+
     if (field === "aadharNumber") {
       // Format Aadhar number with spaces
       updatedForms[index] = {
@@ -218,10 +254,10 @@ export default function TenantsPage() {
   // Update periodTo when periodFrom changes (only if the user hasn't manually changed periodTo)
   const updatePeriodTo = (newPeriodFrom: string) => {
     setPeriodFrom(newPeriodFrom);
-    // Calculate a new period to (11 months from the start date)
+    // Calculate a new period to (one lease term from the start date)
     const fromDate = new Date(newPeriodFrom);
     if (!isNaN(fromDate.getTime())) {
-      const suggestedEndDate = addMonths(fromDate, 11);
+      const suggestedEndDate = addMonths(fromDate, LEASE_TERM_MONTHS);
       setPeriodTo(suggestedEndDate.toISOString().split("T")[0]);
     }
   };
@@ -238,7 +274,7 @@ export default function TenantsPage() {
     // Check if the room already has tenants and prompt for confirmation
     if (tenants.length > 0) {
       const confirmReplace = window.confirm(
-        `This room (${selectedRoom.name}) already has ${tenants.length} tenant(s). Adding new tenants will remove all existing tenants. Do you want to continue?`
+        `This room (${selectedRoom.name}) already has ${tenants.length} tenant(s). Adding new tenants will move all existing tenants out of the room. They will be kept in the room's past tenants. Do you want to continue?`
       );
 
       if (!confirmReplace) {
@@ -271,48 +307,21 @@ export default function TenantsPage() {
       return;
     }
 
-    // Validate all tenant forms
-    for (let i = 0; i < tenantForms.length; i++) {
-      const tenant = tenantForms[i];
-      if (
-        !tenant.name ||
-        !tenant.fatherName ||
-        !tenant.villageName ||
-        !tenant.tehsil ||
-        !tenant.policeStation ||
-        !tenant.district ||
-        !tenant.pincode ||
-        !tenant.state ||
-        !tenant.aadharNumber ||
-        !tenant.phoneNumber ||
-        !tenant.fatherPhoneNumber
-      ) {
-        setError(`Please fill all required fields for Tenant ${i + 1}`);
-        return;
-      }
-
-      // Validate phone numbers (10 digits)
-      if (!isValidPhoneNumber(tenant.phoneNumber)) {
-        setError(`Phone number for Tenant ${i + 1} must be 10 digits`);
-        return;
-      }
-
-      if (!isValidPhoneNumber(tenant.fatherPhoneNumber)) {
-        setError(`Father's phone number for Tenant ${i + 1} must be 10 digits`);
-        return;
-      }
-
-      // Validate Aadhar number (12 digits)
-      if (!isValidAadharNumber(tenant.aadharNumber)) {
-        setError(`Aadhar number for Tenant ${i + 1} must be 12 digits`);
-        return;
-      }
-
-      // Validate pincode (6 digits)
-      if (!isValidPincode(tenant.pincode)) {
-        setError(`Pincode for Tenant ${i + 1} must be 6 digits`);
-        return;
-      }
+    // Validate all tenant forms with the same rules as the API
+    const formErrors = tenantForms.map((tenant) => {
+      const result = validateTenant(tenant);
+      return result.success ? {} : result.errors;
+    });
+    const firstInvalid = formErrors.findIndex(
+      (errors) => Object.keys(errors).length > 0
+    );
+    setTenantErrors(formErrors);
+
+    if (firstInvalid !== -1) {
+      setError(
+        `Please correct the highlighted fields for Tenant ${firstInvalid + 1}`
+      );
+      return;
     }
 
     setSubmitting(true);
@@ -336,94 +345,51 @@ export default function TenantsPage() {
         );
       }
 
-      // First, update the room's rent amount and period
-      const roomResponse = await fetch(`/api/rooms/${selectedRoom.id}`, {
-        method: "PATCH",
+      // Set the rent and period, move out the previous tenants and add the
+      // new ones in one request, so nothing changes if any tenant is invalid
+      const response = await fetch(`/api/rooms/${selectedRoom.id}/allocation`, {
+        method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
           rentAmount: Number(rentAmount),
           periodFrom: periodFromValue,
-          periodTo: periodToValue, // Send the actual periodTo value
+          periodTo: periodToValue,
+          tenants: tenantForms.map((tenant) => ({
+            ...tenant,
+            aadharNumber: unformatAadharNumber(tenant.aadharNumber),
+          })),
         }),
       });
 
-      if (!roomResponse.ok) {
-        const errorData = await roomResponse.json();
-        throw new Error(errorData.error || "Failed to update room");
-      }
-
-      // Delete previous tenants for this room before adding new ones
-      const deleteResponse = await fetch(
-        `/api/rooms/${selectedRoom.id}/tenants`,
-        {
-          method: "DELETE",
+      const data = await response.json();
+
+      if (!response.ok) {
+        // Show the server's field errors against the matching tenant forms
+        if (data.tenantErrors) {
+          const serverErrors: TenantFieldErrors[] = data.tenantErrors;
+          setTenantErrors(serverErrors);
+          const errorIndex = serverErrors.findIndex(
+            (errors) => Object.keys(errors).length > 0
+          );
+          throw new Error(
+            `Please correct the highlighted fields for Tenant ${errorIndex + 1}`
+          );
         }
-      );
-
-      if (!deleteResponse.ok) {
-        const errorData = await deleteResponse.json();
-        throw new Error(errorData.error || "Failed to remove previous tenants");
+        throw new Error(data.error || "Failed to add tenants");
       }
 
-      const deleteData = await deleteResponse.json();
-      console.log(deleteData.message); // Log the number of deleted tenants
-
-      // Submit each tenant with unformatted Aadhar number
-      const promises = tenantForms.map((tenant) => {
-        // Create a copy of the tenant data with unformatted Aadhar number
-        const tenantData = {
-          ...tenant,
-          aadharNumber: unformatAadharNumber(tenant.aadharNumber),
-          roomId: selectedRoom.id,
-        };
-
-        return fetch("/api/tenants", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(tenantData),
-        });
-      });
-
-      const responses = await Promise.all(promises);
-
-      // Check if all responses are successful
-      const allSuccessful = responses.every((response) => response.ok);
-
-      if (allSuccessful) {
-        const deletedCount = deleteData.count || 0;
-        const successMessage =
-          deletedCount > 0
-            ? `Tenants added successfully! ${deletedCount} previous tenant(s) were removed.`
-            : "Tenants added successfully!";
-
-        setSuccess(successMessage);
-        // Refresh tenants list
-        if (selectedRoom) {
-          const response = await fetch(`/api/rooms/${selectedRoom.id}/tenants`);
-          if (response.ok) {
-            const data = await response.json();
-            setTenants(data);
-          }
-        }
-        // Refresh room data to get updated info
-        const roomDataResponse = await fetch(`/api/rooms/${selectedRoom.id}`);
-        if (roomDataResponse.ok) {
-          const updatedRoom = await roomDataResponse.json();
-          setSelectedRoom(updatedRoom);
-        }
-        // Reset form
-        setTenantForms([createEmptyTenantForm()]);
-      } else {
-        const errorResponse = responses.find((response) => !response.ok);
-        if (errorResponse) {
-          const errorData = await errorResponse.json();
-          throw new Error(errorData.error || "Failed to add tenants");
-        }
-      }
+      setSuccess(
+        data.movedOut > 0
+          ? `Tenants added successfully! ${data.movedOut} previous tenant(s) were moved out.`
+          : "Tenants added successfully!"
+      );
+      setSelectedRoom(data.room);
+      setTenants(data.room.tenants);
+      // Reset form
+      setTenantForms([createEmptyTenantForm()]);
+      setTenantErrors([]);
     } catch (error: unknown) {
       console.error("Error adding tenants:", error);
       if (error instanceof Error) {
@@ -436,44 +402,18 @@ export default function TenantsPage() {
     }
   };
 
-  // Add these functions to implement validation and formatting
-
-  // Format Aadhar number with spaces after every 4 digits
-  function formatAadharNumber(value: string): string {
-    // Remove all non-digits
-    const cleanedValue = value.replace(/\D/g, "");
-
-    // Add spaces after every 4 digits
-    const parts = [];
-    for (let i = 0; i < cleanedValue.length && i < 12; i += 4) {
-      parts.push(cleanedValue.substring(i, i + 4));
-    }
-
-    return parts.join(" ");
-  }
-
-  // Remove formatting (spaces) from Aadhar number
-  function unformatAadharNumber(value: string): string {
-    return value.replace(/\s/g, "");
-  }
-
-  // Check if the value is a valid phone number (10 digits)
-  function isValidPhoneNumber(value: string): boolean {
-    const cleanedValue = value.replace(/\D/g, "");
-    return cleanedValue.length === 10;
-  }
+  // Input class for a tenant form field, highlighted when it is invalid
+  const fieldClassName = (index: number, field: TenantField) =>
+    cn(
+      "w-full p-2 border rounded-md",
+      tenantErrors[index]?.[field] && "border-red-500"
+    );
 
-  // Check if the value is a valid Aadhar number (12 digits)
-  function isValidAadharNumber(value: string): boolean {
-    const cleanedValue = value.replace(/\D/g, "");
-    return cleanedValue.length === 12;
-  }
-
-  // Check if the value is a valid pincode (6 digits)
-  function isValidPincode(value: string): boolean {
-    const cleanedValue = value.replace(/\D/g, "");
-    return cleanedValue.length === 6;
-  }
+  // Error message shown below an invalid tenant form field
+  const renderFieldError = (index: number, field: TenantField) =>
+    tenantErrors[index]?.[field] && (
+      <p className="text-sm text-red-600 mt-1">{tenantErrors[index][field]}</p>
+    );
 
   return (
     <div className="container mx-auto p-4 max-w-7xl">
@@ -483,7 +423,22 @@ export default function TenantsPage() {
         {/* Form Section */}
         <div className="lg:col-span-2">
           <div className="bg-white p-6 rounded-lg shadow-md">
-            <h2 className="text-xl font-semibold mb-6">Add New Tenants</h2>
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-semibold">Add New Tenants</h2>
+              <Link
+                href="/tenants/import"
+                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                Import from CSV
+              </Link>
+            </div>
+
+            {currentUser && !can(role, "tenants:write") && (
+              <div className="bg-amber-50 text-amber-800 p-3 rounded-md mb-6 border border-amber-200">
+                Your account can only view tenants. Ask the owner for access to
+                add tenants.
+              </div>
+            )}
 
             <form onSubmit={handleSubmit}>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
@@ -502,9 +457,15 @@ export default function TenantsPage() {
                   </label>
                   <input
                     type="number"
-                    className="w-full p-2 border rounded-md"
+                    className="w-full p-2 border rounded-md read-only:bg-gray-100"
                     value={rentAmount}
                     onChange={(e) => setRentAmount(e.target.value)}
+                    readOnly={!can(role, "rooms:setRent")}
+                    title={
+                      can(role, "rooms:setRent")
+                        ? undefined
+                        : "Only the owner can change the rent amount"
+                    }
                     min="1"
                     required
                   />
@@ -537,7 +498,7 @@ export default function TenantsPage() {
                     required
                   />
                   <p className="text-sm text-gray-500 mt-1">
-                    Default is 11 months from Period From
+                    Default is {LEASE_TERM_MONTHS} months from Period From
                   </p>
                 </div>
               </div>
@@ -565,13 +526,14 @@ export default function TenantsPage() {
                       </label>
                       <input
                         type="text"
-                        className="w-full p-2 border rounded-md"
+                        className={fieldClassName(index, "name")}
                         value={tenantForm.name}
                         onChange={(e) =>
                           updateTenantForm(index, "name", e.target.value)
                         }
                         required
                       />
+                      {renderFieldError(index, "name")}
                     </div>
 
                     {/* Father's Name */}
@@ -582,13 +544,14 @@ export default function TenantsPage() {
                       </label>
                       <input
                         type="text"
-                        className="w-full p-2 border rounded-md"
+                        className={fieldClassName(index, "fatherName")}
                         value={tenantForm.fatherName}
                         onChange={(e) =>
                           updateTenantForm(index, "fatherName", e.target.value)
                         }
                         required
                       />
+                      {renderFieldError(index, "fatherName")}
                     </div>
 
                     {/* Village Name (was Gram) */}
@@ -598,13 +561,14 @@ export default function TenantsPage() {
                       </label>
                       <input
                         type="text"
-                        className="w-full p-2 border rounded-md"
+                        className={fieldClassName(index, "villageName")}
                         value={tenantForm.villageName}
                         onChange={(e) =>
                           updateTenantForm(index, "villageName", e.target.value)
                         }
                         required
                       />
+                      {renderFieldError(index, "villageName")}
                     </div>
 
                     {/* Tehsil (was Tehseel) */}
@@ -614,13 +578,14 @@ export default function TenantsPage() {
                       </label>
                       <input
                         type="text"
-                        className="w-full p-2 border rounded-md"
+                        className={fieldClassName(index, "tehsil")}
                         value={tenantForm.tehsil}
                         onChange={(e) =>
                           updateTenantForm(index, "tehsil", e.target.value)
                         }
                         required
                       />
+                      {renderFieldError(index, "tehsil")}
                     </div>
 
                     {/* Police Station (was Thana) */}
@@ -630,7 +595,7 @@ export default function TenantsPage() {
                       </label>
                       <input
                         type="text"
-                        className="w-full p-2 border rounded-md"
+                        className={fieldClassName(index, "policeStation")}
                         value={tenantForm.policeStation}
                         onChange={(e) =>
                           updateTenantForm(
@@ -641,6 +606,7 @@ export default function TenantsPage() {
                         }
                         required
                       />
+                      {renderFieldError(index, "policeStation")}
                     </div>
 
                     {/* District (was Jila) */}
@@ -650,13 +616,14 @@ export default function TenantsPage() {
                       </label>
                       <input
                         type="text"
-                        className="w-full p-2 border rounded-md"
+                        className={fieldClassName(index, "district")}
                         value={tenantForm.district}
                         onChange={(e) =>
                           updateTenantForm(index, "district", e.target.value)
                         }
                         required
                       />
+                      {renderFieldError(index, "district")}
                     </div>
 
                     {/* Pincode */}
@@ -666,13 +633,14 @@ export default function TenantsPage() {
                       </label>
                       <input
                         type="text"
-                        className="w-full p-2 border rounded-md"
+                        className={fieldClassName(index, "pincode")}
                         value={tenantForm.pincode}
                         onChange={(e) =>
                           updateTenantForm(index, "pincode", e.target.value)
                         }
                         required
                       />
+                      {renderFieldError(index, "pincode")}
                     </div>
 
                     {/* State */}
@@ -682,13 +650,14 @@ export default function TenantsPage() {
                       </label>
                       <input
                         type="text"
-                        className="w-full p-2 border rounded-md"
+                        className={fieldClassName(index, "state")}
                         value={tenantForm.state}
                         onChange={(e) =>
                           updateTenantForm(index, "state", e.target.value)
                         }
                         required
                       />
+                      {renderFieldError(index, "state")}
                     </div>
 
                     {/* Email */}
@@ -698,12 +667,13 @@ export default function TenantsPage() {
                       </label>
                       <input
                         type="email"
-                        className="w-full p-2 border rounded-md"
+                        className={fieldClassName(index, "email")}
                         value={tenantForm.email}
                         onChange={(e) =>
                           updateTenantForm(index, "email", e.target.value)
                         }
                       />
+                      {renderFieldError(index, "email")}
                     </div>
 
                     {/* Aadhar Number */}
@@ -713,7 +683,7 @@ export default function TenantsPage() {
                       </label>
                       <input
                         type="text"
-                        className="w-full p-2 border rounded-md"
+                        className={fieldClassName(index, "aadharNumber")}
                         value={tenantForm.aadharNumber}
                         onChange={(e) =>
                           updateTenantForm(
@@ -724,6 +694,7 @@ export default function TenantsPage() {
                         }
                         required
                       />
+                      {renderFieldError(index, "aadharNumber")}
                     </div>
 
                     {/* Phone Number */}
@@ -733,13 +704,14 @@ export default function TenantsPage() {
                       </label>
                       <input
                         type="tel"
-                        className="w-full p-2 border rounded-md"
+                        className={fieldClassName(index, "phoneNumber")}
                         value={tenantForm.phoneNumber}
                         onChange={(e) =>
                           updateTenantForm(index, "phoneNumber", e.target.value)
                         }
                         required
                       />
+                      {renderFieldError(index, "phoneNumber")}
                     </div>
 
                     {/* Father's Phone Number */}
@@ -750,7 +722,7 @@ export default function TenantsPage() {
                       </label>
                       <input
                         type="tel"
-                        className="w-full p-2 border rounded-md"
+                        className={fieldClassName(index, "fatherPhoneNumber")}
                         value={tenantForm.fatherPhoneNumber}
                         onChange={(e) =>
                           updateTenantForm(
@@ -761,23 +733,40 @@ export default function TenantsPage() {
                         }
                         required
                       />
+                      {renderFieldError(index, "fatherPhoneNumber")}
                     </div>
                   </div>
                 </div>
               ))}
 
+              {selectedRoom && capacityError && (
+                <div className="bg-amber-50 text-amber-800 p-3 rounded-md mb-4 border border-amber-200">
+                  {capacityError}. Remove a tenant or choose a bigger room.
+                </div>
+              )}
+
               <div className="flex justify-between mb-6">
                 <button
                   type="button"
                   onClick={addTenantForm}
-                  className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+                  disabled={roomIsFull}
+                  className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:hover:bg-gray-200"
+                  title={
+                    roomIsFull
+                      ? `Room ${selectedRoom?.name} has ${selectedRoom?.capacity} bed(s)`
+                      : undefined
+                  }
                 >
-                  Add Another Tenant
+                  {roomIsFull ? "Room Is Full" : "Add Another Tenant"}
                 </button>
 
                 <button
                   type="submit"
-                  disabled={submitting}
+                  disabled={
+                    submitting ||
+                    capacityError !== null ||
+                    !can(role, "tenants:write")
+                  }
                   className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
                 >
                   {submitting ? "Submitting..." : "Submit"}
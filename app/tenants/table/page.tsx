@@ -1,15 +1,30 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { formatDate } from "@/lib/utils";
+import { formatDate, getTodayString } from "@/lib/utils";
 import Link from "next/link";
 import { ChevronDown, Check, Filter } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { compareRooms, formatOccupancy } from "@/lib/rooms";
+import { ALL_COLUMNS, COLUMN_GROUPS } from "@/lib/registry";
+import { can } from "@/lib/permissions";
+import {
+  validateTenant,
+  formatAadharNumber,
+  type TenantField,
+  type TenantFieldErrors,
+} from "@/lib/tenant-schema";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import DepositPanel from "../../components/deposit-panel";
 
 // Define types based on your schema
 interface Room {
   id: number;
   name: string;
+  floor: number;
+  number: number;
+  physicalRooms: { id: number; name: string }[];
+  capacity: number;
   rentAmount: number;
   periodFrom: string;
   periodTo: string;
@@ -32,6 +47,11 @@ interface Tenant {
   fatherPhoneNumber: string;
   roomId: number;
   room?: Room;
+  createdAt: string;
+  checkoutDate: string | null;
+  // Set on past tenants: their stay in the room and where they moved to
+  movedIn?: string;
+  transferredTo?: string | null;
 }
 
 // Group tenants by room for display
@@ -39,53 +59,50 @@ interface GroupedRoom extends Room {
   personCount: number;
 }
 
-// List of all available columns for reference
-const ALL_COLUMNS = {
-  name: "Tenant Name",
-  fatherName: "Father's Name",
-  phoneNumber: "Tenant Mobile",
-  fatherPhoneNumber: "Father's Mobile",
-  villageName: "Village",
-  tehsil: "Tehsil",
-  policeStation: "Police Station",
-  district: "District",
-  state: "State",
-  pincode: "Pincode",
-  aadharNumber: "Aadhar Number",
-  email: "Email",
-  rentAmount: "Rent Amount",
-  periodFrom: "Period From",
-  periodTo: "Period To",
-};
-
-// Group columns by category for better organization
-const COLUMN_GROUPS = {
-  "Personal Info": ["name", "fatherName", "email"],
-  "Contact Info": ["phoneNumber", "fatherPhoneNumber"],
-  "Address Info": [
-    "villageName",
-    "tehsil",
-    "policeStation",
-    "district",
-    "state",
-    "pincode",
-  ],
-  "Identity Info": ["aadharNumber"],
-  "Room Info": ["rentAmount", "periodFrom", "periodTo"],
-};
+// Tenants matching a registry search, one server page at a time
+interface SearchResults {
+  q: string;
+  ids: Set<number>; // the matches loaded so far
+  total: number;
+  nextCursor: number | null;
+}
 
 export default function TenantTableView() {
+  const currentUser = useCurrentUser();
+  const role = currentUser?.role;
   const [rooms, setRooms] = useState<GroupedRoom[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [simplifiedPrint, setSimplifiedPrint] = useState(false);
+  // Aadhar numbers are masked unless full display is turned on
+  const [showFullAadhar, setShowFullAadhar] = useState(false);
+  const [revealedAadhar, setRevealedAadhar] = useState<Record<number, string>>(
+    {}
+  );
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTenant, setEditingTenant] = useState<Tenant | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<TenantFieldErrors>({});
   const [isRoomModalOpen, setIsRoomModalOpen] = useState(false);
   const [editingRoom, setEditingRoom] = useState<GroupedRoom | null>(null);
   const [actionSuccess, setActionSuccess] = useState<string | null>(null);
   const [actionError, setActionError] = useState<string | null>(null);
   const [processingAction, setProcessingAction] = useState(false);
+  const [pastTenantsRoom, setPastTenantsRoom] = useState<GroupedRoom | null>(
+    null
+  );
+  const [pastTenants, setPastTenants] = useState<Tenant[]>([]);
+  const [loadingPastTenants, setLoadingPastTenants] = useState(false);
+  const [transferRoom, setTransferRoom] = useState<GroupedRoom | null>(null);
+  const [transferTenantIds, setTransferTenantIds] = useState<number[]>([]);
+  const [transferTargetId, setTransferTargetId] = useState("");
+  const [transferDate, setTransferDate] = useState(getTodayString());
+  const [search, setSearch] = useState("");
+  // The pages of tenants matching the search loaded so far, null when not
+  // searching
+  const [searchResults, setSearchResults] = useState<SearchResults | null>(
+    null
+  );
+  const [loadingMoreMatches, setLoadingMoreMatches] = useState(false);
   const [visibleColumns, setVisibleColumns] = useState({
     name: true,
     phoneNumber: true,
@@ -132,10 +149,80 @@ export default function TenantTableView() {
     }, 200);
   };
 
+  // Fetch the full Aadhar numbers of the given tenants
+  const revealAadharNumbers = async (tenantIds: number[]) => {
+    if (tenantIds.length === 0) return {};
+
+    const response = await fetch(
+      `/api/tenants/aadhar?ids=${tenantIds.join(",")}`
+    );
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to reveal Aadhar numbers");
+    }
+
+    const data: { id: number; aadharNumber: string }[] = await response.json();
+    const revealed = Object.fromEntries(
+      data.map((tenant) => [tenant.id, tenant.aadharNumber])
+    );
+    setRevealedAadhar((current) => ({ ...current, ...revealed }));
+    return revealed;
+  };
+
+  // Switch between masked and full Aadhar numbers in the table and print
+  const handleToggleFullAadhar = async () => {
+    if (showFullAadhar) {
+      setShowFullAadhar(false);
+      setRevealedAadhar({});
+      return;
+    }
+
+    setProcessingAction(true);
+    setActionError(null);
+    try {
+      await revealAadharNumbers(
+        rooms.flatMap((room) => room.tenants.map((tenant) => tenant.id))
+      );
+      setShowFullAadhar(true);
+    } catch (error) {
+      console.error("Error revealing Aadhar numbers:", error);
+      setActionError(
+        error instanceof Error
+          ? error.message
+          : "Failed to reveal Aadhar numbers"
+      );
+    } finally {
+      setProcessingAction(false);
+    }
+  };
+
+  // Aadhar number to display for a tenant, masked unless full display is on
+  const getAadharDisplay = (tenant: Tenant) =>
+    showFullAadhar && revealedAadhar[tenant.id]
+      ? formatAadharNumber(revealedAadhar[tenant.id])
+      : tenant.aadharNumber;
+
   // Function to handle tenant editing
-  const handleEditTenant = (tenant: Tenant) => {
-    setEditingTenant(tenant);
-    setIsModalOpen(true);
+  // The form needs the full Aadhar number, so it is revealed first
+  const handleEditTenant = async (tenant: Tenant) => {
+    setProcessingAction(true);
+    setActionError(null);
+    try {
+      const revealed = await revealAadharNumbers([tenant.id]);
+      setEditingTenant({
+        ...tenant,
+        aadharNumber: revealed[tenant.id] ?? "",
+      });
+      setFieldErrors({});
+      setIsModalOpen(true);
+    } catch (error) {
+      console.error("Error opening tenant for editing:", error);
+      setActionError(
+        error instanceof Error ? error.message : "Failed to load tenant"
+      );
+    } finally {
+      setProcessingAction(false);
+    }
   };
 
   // Function to handle tenant update submission
@@ -148,40 +235,17 @@ export default function TenantTableView() {
     setActionSuccess(null);
 
     try {
-      // Get form data
+      // Validate form data with the same rules as the API
       const formData = new FormData(e.currentTarget);
-      const updatedTenant = {
-        id: editingTenant.id,
-        name: formData.get("name") as string,
-        fatherName: formData.get("fatherName") as string,
-        villageName: formData.get("villageName") as string,
-        tehsil: formData.get("tehsil") as string,
-        policeStation: formData.get("policeStation") as string,
-        district: formData.get("district") as string,
-        pincode: formData.get("pincode") as string,
-        state: formData.get("state") as string,
-        email: (formData.get("email") as string) || null,
-        phoneNumber: formData.get("phoneNumber") as string,
-        fatherPhoneNumber: formData.get("fatherPhoneNumber") as string,
-        aadharNumber: unformatAadharNumber(
-          formData.get("aadharNumber") as string
-        ),
-        roomId: editingTenant.roomId,
-      };
-
-      // Validate fields
-      if (
-        !updatedTenant.name ||
-        !updatedTenant.fatherName ||
-        !isValidPhoneNumber(updatedTenant.phoneNumber) ||
-        !isValidPhoneNumber(updatedTenant.fatherPhoneNumber) ||
-        !isValidAadharNumber(updatedTenant.aadharNumber) ||
-        !isValidPincode(updatedTenant.pincode)
-      ) {
-        setActionError("Please fill all required fields with valid data");
+      const result = validateTenant(Object.fromEntries(formData));
+      if (!result.success) {
+        setFieldErrors(result.errors);
+        setActionError("Please correct the highlighted fields");
         setProcessingAction(false);
         return;
       }
+      setFieldErrors({});
+      const updatedTenant = { ...result.data, roomId: editingTenant.roomId };
 
       // Submit update
       const response = await fetch(`/api/tenants/${editingTenant.id}`, {
@@ -194,9 +258,16 @@ export default function TenantTableView() {
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (errorData.fieldErrors) {
+          setFieldErrors(errorData.fieldErrors);
+        }
         throw new Error(errorData.error || "Failed to update tenant");
       }
 
+      setRevealedAadhar((current) => ({
+        ...current,
+        [editingTenant.id]: updatedTenant.aadharNumber,
+      }));
       setActionSuccess("Tenant updated successfully");
 
       // Close modal and refresh data
@@ -218,15 +289,16 @@ export default function TenantTableView() {
   const closeModal = () => {
     setIsModalOpen(false);
     setEditingTenant(null);
+    setFieldErrors({});
     setActionError(null);
     setActionSuccess(null);
   };
 
-  // Function to empty a room (delete all tenants)
+  // Function to empty a room (move all tenants out)
   const handleEmptyRoom = async (roomId: number, roomName: string) => {
     // Confirm with user
     const confirmEmpty = window.confirm(
-      `Are you sure you want to empty room ${roomName}? This will delete all tenant records for this room.`
+      `Are you sure you want to empty room ${roomName}? All tenants will be moved out and kept in the room's past tenants.`
     );
 
     if (!confirmEmpty) return;
@@ -244,7 +316,11 @@ export default function TenantTableView() {
 
       const data = await response.json();
       setActionSuccess(
-        `Room ${roomName} emptied successfully. ${data.count} tenant(s) removed.`
+        `Room ${roomName} emptied successfully. ${data.count} tenant(s) moved out.${
+          data.depositHeld > 0
+            ? ` ₹${data.depositHeld} of security deposit is still owed back.`
+            : ""
+        }`
       );
 
       // Refresh data
@@ -259,42 +335,144 @@ export default function TenantTableView() {
     }
   };
 
-  // Format Aadhar number with spaces after every 4 digits
-  function formatAadharNumber(value: string): string {
-    // Remove all non-digits
-    const cleanedValue = value.replace(/\D/g, "");
+  // Function to move a tenant to the trash
+  const handleDeleteTenant = async (tenant: Tenant) => {
+    const confirmDelete = window.confirm(
+      `Move ${tenant.name} to the trash? They can be restored from the trash until it is purged.`
+    );
+
+    if (!confirmDelete) return;
 
-    // Add spaces after every 4 digits
-    const parts = [];
-    for (let i = 0; i < cleanedValue.length && i < 12; i += 4) {
-      parts.push(cleanedValue.substring(i, i + 4));
+    setProcessingAction(true);
+    try {
+      const response = await fetch(`/api/tenants/${tenant.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete tenant");
+      }
+
+      setActionSuccess(`${tenant.name} moved to the trash.`);
+
+      // Refresh data
+      fetchRoomsWithTenants();
+    } catch (error) {
+      console.error("Error deleting tenant:", error);
+      setActionError(
+        error instanceof Error ? error.message : "Failed to delete tenant"
+      );
+    } finally {
+      setProcessingAction(false);
     }
+  };
 
-    return parts.join(" ");
-  }
+  // Function to show the former tenants of a room
+  const handleViewPastTenants = async (room: GroupedRoom) => {
+    setPastTenantsRoom(room);
+    setPastTenants([]);
+    setLoadingPastTenants(true);
+    try {
+      const response = await fetch(`/api/rooms/${room.id}/tenants/past`);
 
-  // Remove formatting (spaces) from Aadhar number
-  function unformatAadharNumber(value: string): string {
-    return value.replace(/\s/g, "");
-  }
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch past tenants");
+      }
 
-  // Check if the value is a valid phone number (10 digits)
-  function isValidPhoneNumber(value: string): boolean {
-    const cleanedValue = value.replace(/\D/g, "");
-    return cleanedValue.length === 10;
-  }
+      const data: Tenant[] = await response.json();
+      if (showFullAadhar) {
+        await revealAadharNumbers(data.map((tenant) => tenant.id));
+      }
+      setPastTenants(data);
+    } catch (error) {
+      console.error("Error fetching past tenants:", error);
+      setActionError(
+        error instanceof Error ? error.message : "Failed to fetch past tenants"
+      );
+      setPastTenantsRoom(null);
+    } finally {
+      setLoadingPastTenants(false);
+    }
+  };
+
+  // Function to start moving tenants of a room to another room
+  const handleOpenTransfer = (room: GroupedRoom) => {
+    setTransferRoom(room);
+    setTransferTenantIds(room.tenants.map((tenant) => tenant.id));
+    setTransferTargetId("");
+    setTransferDate(getTodayString());
+    setActionError(null);
+    setActionSuccess(null);
+  };
+
+  const toggleTransferTenant = (tenantId: number) => {
+    setTransferTenantIds((current) =>
+      current.includes(tenantId)
+        ? current.filter((id) => id !== tenantId)
+        : [...current, tenantId]
+    );
+  };
+
+  // Function to move the chosen tenants to the target room
+  const handleTransfer = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!transferRoom) return;
+
+    const target = rooms.find((room) => room.id === Number(transferTargetId));
+    if (!target || transferTenantIds.length === 0) {
+      setActionError("Choose the tenants to move and the room to move them to");
+      return;
+    }
+
+    setProcessingAction(true);
+    setActionError(null);
+    try {
+      const response = await fetch("/api/tenants/transfer", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          tenantIds: transferTenantIds,
+          roomId: target.id,
+          effectiveDate: transferDate,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to transfer tenants");
+      }
+
+      setActionSuccess(
+        `${transferTenantIds.length} tenant(s) moved from room ${transferRoom.name} to room ${target.name}.`
+      );
+      setTransferRoom(null);
+      fetchRoomsWithTenants();
+    } catch (error) {
+      console.error("Error transferring tenants:", error);
+      setActionError(
+        error instanceof Error ? error.message : "Failed to transfer tenants"
+      );
+    } finally {
+      setProcessingAction(false);
+    }
+  };
 
-  // Check if the value is a valid Aadhar number (12 digits)
-  function isValidAadharNumber(value: string): boolean {
-    const cleanedValue = value.replace(/\D/g, "");
-    return cleanedValue.length === 12;
-  }
+  // Input class for a field of the edit tenant form, highlighted when invalid
+  const fieldClassName = (field: TenantField) =>
+    cn(
+      "w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500",
+      fieldErrors[field] && "border-red-500"
+    );
 
-  // Check if the value is a valid pincode (6 digits)
-  function isValidPincode(value: string): boolean {
-    const cleanedValue = value.replace(/\D/g, "");
-    return cleanedValue.length === 6;
-  }
+  // Error message shown below an invalid field of the edit tenant form
+  const renderFieldError = (field: TenantField) =>
+    fieldErrors[field] && (
+      <p className="text-sm text-red-600 mt-1">{fieldErrors[field]}</p>
+    );
 
   // Modify the fetchRoomsWithTenants function to be callable directly
   const fetchRoomsWithTenants = async () => {
@@ -329,19 +507,8 @@ export default function TenantTableView() {
         })
       );
 
-      // Sort rooms by name
-      roomsWithTenants.sort((a: Room, b: Room) => {
-        // Sort ground floor first, then first floor, then second floor
-        if (a.name.startsWith("G") && !b.name.startsWith("G")) return -1;
-        if (!a.name.startsWith("G") && b.name.startsWith("G")) return 1;
-        if (a.name.startsWith("F") && b.name.startsWith("S")) return -1;
-        if (a.name.startsWith("S") && b.name.startsWith("F")) return 1;
-
-        // Within the same floor, sort by room number
-        const aNum = parseInt(a.name.replace(/\D/g, "")) || 0;
-        const bNum = parseInt(b.name.replace(/\D/g, "")) || 0;
-        return aNum - bNum;
-      });
+      // Sort by floor, then by room number
+      roomsWithTenants.sort(compareRooms);
 
       setRooms(roomsWithTenants as GroupedRoom[]);
       setError(null);
@@ -358,6 +525,115 @@ export default function TenantTableView() {
     fetchRoomsWithTenants();
   }, []);
 
+  // Fetch a page of the tenants matching a search, in room order
+  const fetchSearchPage = async (q: string, cursor: number | null) => {
+    const params = new URLSearchParams({ q, sort: "room", order: "asc" });
+    if (cursor) params.set("cursor", String(cursor));
+
+    const response = await fetch(`/api/tenants?${params}`);
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to search tenants");
+    }
+
+    const data: {
+      tenants: Tenant[];
+      total: number;
+      nextCursor: number | null;
+    } = await response.json();
+    return {
+      ids: data.tenants.map((tenant) => tenant.id),
+      total: data.total,
+      nextCursor: data.nextCursor,
+    };
+  };
+
+  // Search the tenants on the server once the search text stops changing,
+  // starting with the first page of matches
+  useEffect(() => {
+    const q = search.trim();
+    if (!q) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const page = await fetchSearchPage(q, null);
+        if (!cancelled) {
+          setSearchResults({ q, ...page, ids: new Set(page.ids) });
+        }
+      } catch (error) {
+        console.error("Error searching tenants:", error);
+        if (!cancelled) {
+          setActionError(
+            error instanceof Error ? error.message : "Failed to search tenants"
+          );
+        }
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search]);
+
+  // Add the next page of matches to the search results
+  const handleLoadMoreMatches = async () => {
+    if (!searchResults?.nextCursor) return;
+
+    const { q, nextCursor } = searchResults;
+    setLoadingMoreMatches(true);
+    try {
+      const page = await fetchSearchPage(q, nextCursor);
+      // Ignore the page if the search has changed in the meantime
+      setSearchResults((results) =>
+        results?.q === q
+          ? {
+              q,
+              ids: new Set([...results.ids, ...page.ids]),
+              total: page.total,
+              nextCursor: page.nextCursor,
+            }
+          : results
+      );
+    } catch (error) {
+      console.error("Error searching tenants:", error);
+      setActionError(
+        error instanceof Error ? error.message : "Failed to search tenants"
+      );
+    } finally {
+      setLoadingMoreMatches(false);
+    }
+  };
+
+  // Rooms to show with their tenants, only the matching tenants loaded so far
+  // and their rooms while searching
+  const displayedRooms = rooms.flatMap((room) => {
+    if (!searchResults) return [{ room, tenants: room.tenants }];
+    const tenants = room.tenants.filter((tenant) =>
+      searchResults.ids.has(tenant.id)
+    );
+    return tenants.length > 0 ? [{ room, tenants }] : [];
+  });
+
+  // Export link for the registry with the selected columns, as CSV or Excel
+  const getExportUrl = (format: "csv" | "xlsx") => {
+    const params = new URLSearchParams({
+      format,
+      columns: Object.entries(visibleColumns)
+        .filter(([, isVisible]) => isVisible)
+        .map(([name]) => name)
+        .join(","),
+    });
+    if (showFullAadhar) {
+      params.set("aadhar", "full");
+    }
+    return `/api/tenants/export?${params}`;
+  };
+
   // Get list of visible columns
   const getVisibleColumnNames = () => {
     if (simplifiedPrint) {
@@ -422,6 +698,9 @@ export default function TenantTableView() {
 
   // Safely get tenant property as string
   const getTenantValue = (tenant: Tenant, key: string): React.ReactNode => {
+    if (key === "aadharNumber") {
+      return getAadharDisplay(tenant);
+    }
     if (key in tenant) {
       const value = tenant[key as keyof Tenant];
       // Ensure we're not trying to render an object
@@ -666,6 +945,32 @@ export default function TenantTableView() {
           >
             <span>Print Full Table</span>
           </button>
+          {can(role, "tenants:revealAadhar") && (
+            <button
+              onClick={handleToggleFullAadhar}
+              disabled={processingAction}
+              className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 no-print flex items-center gap-2 shadow-sm disabled:opacity-50"
+              title="Aadhar numbers are masked unless full display is turned on"
+            >
+              <span>
+                {showFullAadhar ? "Mask Aadhar Numbers" : "Show Full Aadhar"}
+              </span>
+            </button>
+          )}
+          <a
+            href={getExportUrl("csv")}
+            className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 no-print flex items-center gap-2 shadow-sm"
+            title="Download the selected columns as CSV"
+          >
+            <span>Export CSV</span>
+          </a>
+          <a
+            href={getExportUrl("xlsx")}
+            className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 no-print flex items-center gap-2 shadow-sm"
+            title="Download the selected columns as an Excel sheet"
+          >
+            <span>Export Excel</span>
+          </a>
           <button
             onClick={handleSimplifiedPrint}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200 no-print flex items-center gap-2 shadow-sm"
@@ -673,12 +978,22 @@ export default function TenantTableView() {
           >
             <span>Print Readable Version</span>
           </button>
-          <Link
-            href="/tenants"
-            className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors duration-200 no-print flex items-center gap-2 shadow-sm"
-          >
-            Manage Tenants
-          </Link>
+          {can(role, "tenants:write") && (
+            <Link
+              href="/tenants"
+              className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors duration-200 no-print flex items-center gap-2 shadow-sm"
+            >
+              Manage Tenants
+            </Link>
+          )}
+          {can(role, "tenants:write") && (
+            <Link
+              href="/tenants/import"
+              className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 no-print flex items-center gap-2 shadow-sm"
+            >
+              Import CSV
+            </Link>
+          )}
         </div>
       </div>
 
@@ -770,6 +1085,34 @@ export default function TenantTableView() {
             </div>
           </div>
 
+          {/* Search */}
+          <div className="flex items-center gap-4 mb-4 no-print">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name, father's name, phone or village"
+              className="w-full max-w-md p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            {searchResults && (
+              <span className="text-sm text-gray-600 whitespace-nowrap">
+                {searchResults.ids.size < searchResults.total
+                  ? `Showing ${searchResults.ids.size} of ${searchResults.total} tenant(s) found`
+                  : `${searchResults.total} tenant(s) found`}
+              </span>
+            )}
+            {searchResults?.nextCursor && (
+              <button
+                type="button"
+                onClick={handleLoadMoreMatches}
+                disabled={loadingMoreMatches}
+                className="text-sm font-medium text-blue-600 hover:text-blue-800 whitespace-nowrap disabled:opacity-50"
+              >
+                {loadingMoreMatches ? "Loading..." : "Load More"}
+              </button>
+            )}
+          </div>
+
           {/* Table */}
           <div className="overflow-x-auto bg-white rounded-lg shadow-sm border border-gray-200">
             <table className="min-w-full divide-y divide-gray-200 border-collapse">
@@ -818,24 +1161,24 @@ export default function TenantTableView() {
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {rooms.map((room) => {
-                  const tenantCount = room.tenants.length;
+                {displayedRooms.map(({ room, tenants }) => {
+                  const tenantCount = tenants.length;
                   // Determine background color based on room name
-                  const getBgColor = (roomName: string, isEven: boolean) => {
-                    if (roomName.startsWith("F")) {
+                  const getBgColor = (floor: number, isEven: boolean) => {
+                    if (floor === 1) {
                       return isEven ? "bg-blue-50" : "bg-blue-100";
-                    } else if (roomName.startsWith("S")) {
+                    } else if (floor === 2) {
                       return isEven ? "bg-emerald-50" : "bg-emerald-100";
                     }
                     return isEven ? "bg-white" : "bg-gray-50";
                   };
 
-                  return room.tenants.length > 0 ? (
+                  return tenants.length > 0 ? (
                     // Rooms with tenants
-                    room.tenants.map((tenant, index) => (
+                    tenants.map((tenant, index) => (
                       <tr
                         key={tenant.id}
-                        className={getBgColor(room.name, index % 2 === 0)}
+                        className={getBgColor(room.floor, index % 2 === 0)}
                       >
                         {index === 0 && (
                           <>
@@ -844,12 +1187,20 @@ export default function TenantTableView() {
                               rowSpan={tenantCount}
                             >
                               {room.name}
+                              {room.physicalRooms.length > 1 && (
+                                <div className="text-xs font-normal text-gray-500">
+                                  Covers{" "}
+                                  {room.physicalRooms
+                                    .map((physicalRoom) => physicalRoom.name)
+                                    .join(", ")}
+                                </div>
+                              )}
                             </td>
                             <td
                               className="px-4 py-3 text-center text-gray-900 whitespace-nowrap border-r border-gray-200"
                               rowSpan={tenantCount}
                             >
-                              {tenantCount}
+                              {room.personCount}
                             </td>
                           </>
                         )}
@@ -925,13 +1276,36 @@ export default function TenantTableView() {
 
                         {/* Tenant Actions */}
                         <td className="px-4 py-3 text-center whitespace-nowrap no-print border-l border-gray-200">
-                          <button
-                            onClick={() => handleEditTenant(tenant)}
-                            className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200"
-                            title="Edit tenant information"
-                          >
-                            Edit
-                          </button>
+                          {can(role, "tenants:write") && (
+                            <button
+                              onClick={() => handleEditTenant(tenant)}
+                              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200"
+                              title="Edit tenant information"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {can(role, "tenants:revealAadhar") && (
+                            <a
+                              href={`/api/tenants/${tenant.id}/police-verification`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center ml-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200"
+                              title="Police verification form of this tenant (PDF)"
+                            >
+                              Police Form
+                            </a>
+                          )}
+                          {can(role, "tenants:delete") && (
+                            <button
+                              onClick={() => handleDeleteTenant(tenant)}
+                              disabled={processingAction}
+                              className="inline-flex items-center ml-2 px-3 py-1.5 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors duration-200 disabled:opacity-50"
+                              title="Move this tenant to the trash"
+                            >
+                              Delete
+                            </button>
+                          )}
                         </td>
 
                         {/* Room Actions - only show in first row */}
@@ -941,21 +1315,52 @@ export default function TenantTableView() {
                             rowSpan={tenantCount}
                           >
                             <div className="flex flex-col items-center gap-2">
+                              {can(role, "rooms:update") && (
+                                <button
+                                  onClick={() => handleEditRoom(room)}
+                                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 transition-colors duration-200 w-full justify-center"
+                                  title="Edit room details"
+                                >
+                                  Edit Room
+                                </button>
+                              )}
+                              {can(role, "tenants:write") && (
+                                <button
+                                  onClick={() => handleOpenTransfer(room)}
+                                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200 w-full justify-center"
+                                  title="Move tenants of this room to another room"
+                                >
+                                  Transfer
+                                </button>
+                              )}
+                              {can(role, "tenants:write") && (
+                                <button
+                                  onClick={() =>
+                                    handleEmptyRoom(room.id, room.name)
+                                  }
+                                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors duration-200 w-full justify-center"
+                                  title="Move all tenants out of this room"
+                                >
+                                  Empty Room
+                                </button>
+                              )}
+                              {can(role, "tenants:revealAadhar") && (
+                                <a
+                                  href={`/api/rooms/${room.id}/police-verification`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200 w-full justify-center"
+                                  title="Police verification forms of all tenants in this room (PDF)"
+                                >
+                                  Police Forms
+                                </a>
+                              )}
                               <button
-                                onClick={() => handleEditRoom(room)}
-                                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 transition-colors duration-200 w-full justify-center"
-                                title="Edit room details"
+                                onClick={() => handleViewPastTenants(room)}
+                                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200 w-full justify-center"
+                                title="View former tenants of this room"
                               >
-                                Edit Room
-                              </button>
-                              <button
-                                onClick={() =>
-                                  handleEmptyRoom(room.id, room.name)
-                                }
-                                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors duration-200 w-full justify-center"
-                                title="Remove all tenants from this room"
-                              >
-                                Empty Room
+                                Past Tenants
                               </button>
                             </div>
                           </td>
@@ -964,9 +1369,17 @@ export default function TenantTableView() {
                     ))
                   ) : (
                     // Empty rooms
-                    <tr className={getBgColor(room.name, true)}>
+                    <tr className={getBgColor(room.floor, true)}>
                       <td className="px-4 py-3 font-medium text-red-700 whitespace-nowrap room-cell border-r border-gray-200">
                         {room.name}
+                        {room.physicalRooms.length > 1 && (
+                          <div className="text-xs font-normal text-gray-500">
+                            Covers{" "}
+                            {room.physicalRooms
+                              .map((physicalRoom) => physicalRoom.name)
+                              .join(", ")}
+                          </div>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-center text-gray-900 whitespace-nowrap border-r border-gray-200">
                         0
@@ -1026,13 +1439,24 @@ export default function TenantTableView() {
                         {/* No tenant actions for empty rooms */}
                       </td>
                       <td className="px-4 py-3 text-center whitespace-nowrap no-print">
-                        <button
-                          onClick={() => handleEditRoom(room)}
-                          className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 transition-colors duration-200"
-                          title="Edit room details"
-                        >
-                          Edit Room
-                        </button>
+                        <div className="flex flex-col items-center gap-2">
+                          {can(role, "rooms:update") && (
+                            <button
+                              onClick={() => handleEditRoom(room)}
+                              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-amber-600 rounded-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 transition-colors duration-200 w-full justify-center"
+                              title="Edit room details"
+                            >
+                              Edit Room
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleViewPastTenants(room)}
+                            className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200 w-full justify-center"
+                            title="View former tenants of this room"
+                          >
+                            Past Tenants
+                          </button>
+                        </div>
                       </td>
                     </tr>
                   );
@@ -1097,10 +1521,11 @@ export default function TenantTableView() {
                     <input
                       type="text"
                       name="name"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className={fieldClassName("name")}
                       defaultValue={editingTenant.name}
                       required
                     />
+                    {renderFieldError("name")}
                   </div>
 
                   {/* Father's Name */}
@@ -1111,10 +1536,11 @@ export default function TenantTableView() {
                     <input
                       type="text"
                       name="fatherName"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className={fieldClassName("fatherName")}
                       defaultValue={editingTenant.fatherName}
                       required
                     />
+                    {renderFieldError("fatherName")}
                   </div>
 
                   {/* Village Name */}
@@ -1125,10 +1551,11 @@ export default function TenantTableView() {
                     <input
                       type="text"
                       name="villageName"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className={fieldClassName("villageName")}
                       defaultValue={editingTenant.villageName}
                       required
                     />
+                    {renderFieldError("villageName")}
                   </div>
 
                   {/* Tehsil */}
@@ -1139,10 +1566,11 @@ export default function TenantTableView() {
                     <input
                       type="text"
                       name="tehsil"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className={fieldClassName("tehsil")}
                       defaultValue={editingTenant.tehsil}
                       required
                     />
+                    {renderFieldError("tehsil")}
                   </div>
 
                   {/* Police Station */}
@@ -1153,10 +1581,11 @@ export default function TenantTableView() {
                     <input
                       type="text"
                       name="policeStation"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className={fieldClassName("policeStation")}
                       defaultValue={editingTenant.policeStation}
                       required
                     />
+                    {renderFieldError("policeStation")}
                   </div>
 
                   {/* District */}
@@ -1167,10 +1596,11 @@ export default function TenantTableView() {
                     <input
                       type="text"
                       name="district"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className={fieldClassName("district")}
                       defaultValue={editingTenant.district}
                       required
                     />
+                    {renderFieldError("district")}
                   </div>
 
                   {/* Pincode */}
@@ -1181,13 +1611,14 @@ export default function TenantTableView() {
                     <input
                       type="text"
                       name="pincode"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className={fieldClassName("pincode")}
                       defaultValue={editingTenant.pincode}
                       required
                       maxLength={6}
                       pattern="\d{6}"
                       title="Pincode must be 6 digits"
                     />
+                    {renderFieldError("pincode")}
                   </div>
 
                   {/* State */}
@@ -1198,10 +1629,11 @@ export default function TenantTableView() {
                     <input
                       type="text"
                       name="state"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className={fieldClassName("state")}
                       defaultValue={editingTenant.state}
                       required
                     />
+                    {renderFieldError("state")}
                   </div>
 
                   {/* Email */}
@@ -1212,9 +1644,10 @@ export default function TenantTableView() {
                     <input
                       type="email"
                       name="email"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className={fieldClassName("email")}
                       defaultValue={editingTenant.email || ""}
                     />
+                    {renderFieldError("email")}
                   </div>
 
                   {/* Aadhar Number */}
@@ -1225,12 +1658,13 @@ export default function TenantTableView() {
                     <input
                       type="text"
                       name="aadharNumber"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className={fieldClassName("aadharNumber")}
                       defaultValue={formatAadharNumber(
                         editingTenant.aadharNumber
                       )}
                       required
                     />
+                    {renderFieldError("aadharNumber")}
                   </div>
 
                   {/* Phone Number */}
@@ -1241,13 +1675,14 @@ export default function TenantTableView() {
                     <input
                       type="tel"
                       name="phoneNumber"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className={fieldClassName("phoneNumber")}
                       defaultValue={editingTenant.phoneNumber}
                       required
                       maxLength={10}
                       pattern="\d{10}"
                       title="Phone number must be 10 digits"
                     />
+                    {renderFieldError("phoneNumber")}
                   </div>
 
                   {/* Father's Phone Number */}
@@ -1259,13 +1694,14 @@ export default function TenantTableView() {
                     <input
                       type="tel"
                       name="fatherPhoneNumber"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className={fieldClassName("fatherPhoneNumber")}
                       defaultValue={editingTenant.fatherPhoneNumber}
                       required
                       maxLength={10}
                       pattern="\d{10}"
                       title="Phone number must be 10 digits"
                     />
+                    {renderFieldError("fatherPhoneNumber")}
                   </div>
                 </div>
 
@@ -1357,8 +1793,14 @@ export default function TenantTableView() {
                       type="number"
                       name="rentAmount"
                       min="0"
-                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-100"
                       defaultValue={editingRoom.rentAmount}
+                      readOnly={!can(role, "rooms:setRent")}
+                      title={
+                        can(role, "rooms:setRent")
+                          ? undefined
+                          : "Only the owner can change the rent amount"
+                      }
                       required
                     />
                   </div>
@@ -1439,6 +1881,228 @@ export default function TenantTableView() {
                 </div>
               </form>
             )}
+
+            <div className="mt-6">
+              <DepositPanel
+                roomId={editingRoom.id}
+                tenants={editingRoom.tenants}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Transfer Tenants Modal */}
+      {transferRoom && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 no-print">
+          <div className="bg-white rounded-lg shadow-xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto mx-4">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Transfer Tenants of {transferRoom.name}
+              </h2>
+              <button
+                onClick={() => setTransferRoom(null)}
+                className="text-gray-500 hover:text-gray-700 focus:outline-none"
+              >
+                <span className="sr-only">Close</span>
+                <svg
+                  className="h-6 w-6"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={handleTransfer}>
+              <div className="space-y-5">
+                {/* Tenants to move */}
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-1">
+                    Tenants to move <span className="text-red-500">*</span>
+                  </p>
+                  <div className="space-y-2">
+                    {transferRoom.tenants.map((tenant) => (
+                      <label
+                        key={tenant.id}
+                        className="flex items-center gap-2 text-gray-900"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={transferTenantIds.includes(tenant.id)}
+                          onChange={() => toggleTransferTenant(tenant.id)}
+                        />
+                        {tenant.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Target room, with the rooms that lack free beds disabled */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Move To <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    value={transferTargetId}
+                    onChange={(e) => setTransferTargetId(e.target.value)}
+                    className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    required
+                  >
+                    <option value="">Choose a room</option>
+                    {rooms
+                      .filter((room) => room.id !== transferRoom.id)
+                      .map((room) => (
+                        <option
+                          key={room.id}
+                          value={room.id}
+                          disabled={
+                            room.capacity - room.personCount <
+                            transferTenantIds.length
+                          }
+                        >
+                          {room.name} (
+                          {formatOccupancy(room.personCount, room.capacity)})
+                        </option>
+                      ))}
+                  </select>
+                </div>
+
+                {/* Effective date */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Moved On <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="date"
+                    value={transferDate}
+                    max={getTodayString()}
+                    onChange={(e) => setTransferDate(e.target.value)}
+                    className="w-full p-2.5 text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    required
+                  />
+                </div>
+
+                <div className="bg-amber-50 p-3 rounded-lg border border-amber-200">
+                  <p className="text-amber-800 text-sm">
+                    Moved tenants stay in the past tenants of{" "}
+                    {transferRoom.name}. Payments and dues stay with each room.
+                  </p>
+                </div>
+              </div>
+
+              {actionError && (
+                <div className="bg-red-50 text-red-700 p-4 rounded-lg my-6 border border-red-200">
+                  {actionError}
+                </div>
+              )}
+
+              <div className="flex justify-end mt-8 gap-3">
+                <button
+                  type="button"
+                  onClick={() => setTransferRoom(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={processingAction || transferTenantIds.length === 0}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors duration-200 disabled:opacity-50"
+                >
+                  {processingAction ? "Moving..." : "Transfer Tenants"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Past Tenants Modal */}
+      {pastTenantsRoom && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 no-print">
+          <div className="bg-white rounded-lg shadow-xl p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto mx-4">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-semibold text-gray-900">
+                Past Tenants of {pastTenantsRoom.name}
+              </h2>
+              <button
+                onClick={() => setPastTenantsRoom(null)}
+                className="text-gray-500 hover:text-gray-700 focus:outline-none"
+              >
+                <span className="sr-only">Close</span>
+                <svg
+                  className="h-6 w-6"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+
+            {loadingPastTenants ? (
+              <p className="text-gray-500">Loading past tenants...</p>
+            ) : pastTenants.length === 0 ? (
+              <p className="text-gray-500">
+                No former tenants recorded for this room.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {pastTenants.map((tenant) => (
+                  <div
+                    key={tenant.id}
+                    className="border border-gray-200 rounded-lg p-4"
+                  >
+                    <div className="flex justify-between items-start mb-2">
+                      <h3 className="font-medium text-gray-900">
+                        {tenant.name}
+                      </h3>
+                      <span className="text-sm text-gray-600">
+                        {formatDate(
+                          new Date(tenant.movedIn ?? tenant.createdAt)
+                        )}{" "}
+                        –{" "}
+                        {tenant.checkoutDate
+                          ? formatDate(new Date(tenant.checkoutDate))
+                          : "-"}
+                      </span>
+                    </div>
+                    <div className="text-sm text-gray-600 space-y-1">
+                      {tenant.transferredTo && (
+                        <p className="text-blue-700">
+                          Moved to room {tenant.transferredTo}
+                        </p>
+                      )}
+                      <p>Father: {tenant.fatherName}</p>
+                      <p>
+                        Address: {tenant.villageName}, {tenant.tehsil},{" "}
+                        {tenant.policeStation}, {tenant.district},{" "}
+                        {tenant.state} - {tenant.pincode}
+                      </p>
+                      <p>
+                        Phone: {tenant.phoneNumber} · Father&apos;s Phone:{" "}
+                        {tenant.fatherPhoneNumber}
+                      </p>
+                      <p>Aadhar: {getAadharDisplay(tenant)}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       )}
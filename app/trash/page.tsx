@@ -0,0 +1,252 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { formatDate } from "@/lib/utils";
+import { getPurgeDate } from "@/lib/trash";
+import { can } from "@/lib/permissions";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+interface Room {
+  id: number;
+  name: string;
+  deletedAt: string;
+}
+
+interface Tenant {
+  id: number;
+  name: string;
+  fatherName: string;
+  aadharNumber: string;
+  status: "ACTIVE" | "ARCHIVED";
+  deletedAt: string;
+  room: { id: number; name: string };
+}
+
+interface TrashData {
+  retentionDays: number;
+  rooms: Room[];
+  tenants: Tenant[];
+}
+
+export default function TrashPage() {
+  const currentUser = useCurrentUser();
+  const [data, setData] = useState<TrashData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/trash");
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to fetch trash");
+      }
+      setData(await response.json());
+    } catch (err) {
+      console.error("Error fetching trash:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch trash");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const handleRestore = async (url: string, label: string) => {
+    setRestoring(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(url, { method: "POST" });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to restore");
+      }
+
+      setSuccess(`${label} restored.`);
+      fetchTrash();
+    } catch (err) {
+      console.error("Error restoring:", err);
+      setError(err instanceof Error ? err.message : "Failed to restore");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (currentUser && !can(currentUser.role, "tenants:delete")) {
+    return (
+      <div className="container mx-auto p-4 max-w-7xl">
+        <div className="bg-amber-50 text-amber-800 p-3 rounded-md border border-amber-200">
+          Only the owner can view the trash.
+        </div>
+      </div>
+    );
+  }
+
+  const restoreButton = (url: string, label: string) => (
+    <button
+      onClick={() => handleRestore(url, label)}
+      disabled={restoring}
+      className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50"
+    >
+      Restore
+    </button>
+  );
+
+  const headingClass =
+    "px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap";
+
+  return (
+    <div className="container mx-auto p-4 max-w-7xl">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="text-gray-600 mt-1">
+            Deleted tenants and rooms are kept here
+            {data && ` for ${data.retentionDays} days`} before they are purged
+            for good
+          </p>
+        </div>
+        <Link
+          href="/rooms"
+          className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors duration-200"
+        >
+          Room Overview
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 text-red-700 p-3 rounded-md mb-4">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="bg-green-100 text-green-700 p-3 rounded-md mb-4">
+          {success}
+        </div>
+      )}
+
+      {loading || !data ? (
+        <p className="text-gray-500">Loading trash...</p>
+      ) : (
+        <div className="space-y-8">
+          <div className="bg-white p-6 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold mb-4">Tenants</h2>
+            {data.tenants.length === 0 ? (
+              <p className="text-gray-500">No tenants in the trash.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      {[
+                        "Name",
+                        "Father's Name",
+                        "Aadhar Number",
+                        "Room",
+                        "Deleted On",
+                        "Purged On",
+                        "",
+                      ].map((heading) => (
+                        <th key={heading} className={headingClass}>
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {data.tenants.map((tenant) => (
+                      <tr key={tenant.id}>
+                        <td className="px-4 py-3 whitespace-nowrap font-medium">
+                          {tenant.name}
+                          {tenant.status === "ARCHIVED" && (
+                            <span className="ml-2 text-sm text-gray-500">
+                              (moved out)
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {tenant.fatherName}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {tenant.aadharNumber}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {tenant.room.name}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {formatDate(new Date(tenant.deletedAt))}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {formatDate(getPurgeDate(tenant.deletedAt))}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {restoreButton(
+                            `/api/tenants/${tenant.id}/restore`,
+                            tenant.name
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold mb-4">Rooms</h2>
+            {data.rooms.length === 0 ? (
+              <p className="text-gray-500">No rooms in the trash.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      {["Room", "Deleted On", "Purged On", ""].map(
+                        (heading) => (
+                          <th key={heading} className={headingClass}>
+                            {heading}
+                          </th>
+                        )
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {data.rooms.map((room) => (
+                      <tr key={room.id}>
+                        <td className="px-4 py-3 whitespace-nowrap font-medium">
+                          {room.name}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {formatDate(new Date(room.deletedAt))}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {formatDate(getPurgeDate(room.deletedAt))}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          {restoreButton(
+                            `/api/rooms/${room.id}/restore`,
+                            `Room ${room.name}`
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { useState, useEffect } from "react";
+import { Role } from "@/lib/permissions";
+
+export interface CurrentUser {
+  id: number;
+  email: string;
+  name: string | null;
+  role: Role;
+}
+
+/**
+ * Fetch the logged in user, e.g. to hide actions their role cannot use.
+ * Returns null until the user has been loaded.
+ */
+export function useCurrentUser(): CurrentUser | null {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+
+  useEffect(() => {
+    const fetchUser = async () => {
+      try {
+        const response = await fetch("/api/auth/me");
+        if (response.ok) {
+          setUser(await response.json());
+        }
+      } catch (err) {
+        console.error("Error fetching current user:", err);
+      }
+    };
+
+    fetchUser();
+  }, []);
+
+  return user;
+}
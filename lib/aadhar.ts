@@ -0,0 +1,68 @@
+// Aadhar number checks and masking.
+// The full number is only sent to the browser by /api/tenants/aadhar,
+// every other API response uses the masked form.
+
+// Verhoeff multiplication table
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+// Verhoeff permutation table
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Check the Verhoeff checksum of a number given as a string of digits.
+ * The last digit of every Aadhar number is a Verhoeff check digit, so a
+ * single mistyped or swapped digit makes this return false.
+ */
+export function isValidVerhoeff(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false;
+
+  let check = 0;
+  const reversed = digits.split("").reverse();
+  for (let i = 0; i < reversed.length; i++) {
+    check = VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(reversed[i])]];
+  }
+  return check === 0;
+}
+
+/**
+ * Mask an Aadhar number so only the last 4 digits show, e.g. XXXX XXXX 1234
+ */
+export function maskAadharNumber(value: string): string {
+  return `XXXX XXXX ${value.replace(/\D/g, "").slice(-4)}`;
+}
+
+/**
+ * Copy of a tenant with the Aadhar number masked, for API responses. The
+ * blind index is left out too, since anyone could use it to check whether a
+ * guessed Aadhar number is on file.
+ */
+export function maskTenant<T extends { aadharNumber: string }>(
+  tenant: T
+): Omit<T, "aadharHash"> {
+  const masked: Omit<T, "aadharHash"> & { aadharHash?: unknown } = {
+    ...tenant,
+    aadharNumber: maskAadharNumber(tenant.aadharNumber),
+  };
+  delete masked.aadharHash;
+  return masked;
+}
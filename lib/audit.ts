@@ -0,0 +1,143 @@
+import { AuditAction, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { CurrentUser } from "@/lib/auth";
+import { ENCRYPTED_TENANT_FIELDS } from "@/lib/encryption";
+
+// Audit log of the changes made through the API. Every route that creates,
+// updates or deletes data records who made the change and the values of the
+// changed fields before and after it, in the same transaction as the change,
+// so a change is never saved without its audit entry.
+
+export type AuditEntity =
+  | "Charge"
+  | "Deposit"
+  | "DepositTransaction"
+  | "LodgeSettings"
+  | "MeterReading"
+  | "Payment"
+  | "PhysicalRoom"
+  | "Room"
+  | "Tenant"
+  | "User";
+
+export type AuditChanges = Record<
+  string,
+  { before: Prisma.JsonValue; after: Prisma.JsonValue }
+>;
+
+// Fields kept by the database anyway
+const IGNORED_FIELDS = new Set(["id", "createdAt", "updatedAt"]);
+
+// Fields that are encrypted or secret in the database must not be copied
+// into the log in the clear. Only the fact that they changed is recorded.
+const HIDDEN_FIELDS = new Set<string>([
+  ...ENCRYPTED_TENANT_FIELDS,
+  "aadharHash",
+  "passwordHash",
+]);
+const HIDDEN_VALUE = "(hidden)";
+
+type AuditRecord = object | null | undefined;
+
+// Who made a change: the signed-in user, or a scheduled script
+export type AuditActor = Pick<CurrentUser, "email" | "name"> & {
+  id: number | null;
+};
+
+// The actor of changes made by scheduled scripts, e.g. late fees
+export const SYSTEM_ACTOR: AuditActor = {
+  id: null,
+  email: "system",
+  name: "System",
+};
+
+// The value of a field as it is stored in the log. Related records and lists
+// are left out, only the record's own fields are compared.
+function toLogValue(value: unknown): Prisma.JsonValue | undefined {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (["string", "number", "boolean"].includes(typeof value)) {
+    return value as Prisma.JsonValue;
+  }
+  return undefined;
+}
+
+/**
+ * Get the fields that differ between two versions of a record. A created
+ * record has no before, a deleted one has no after.
+ */
+export function diffRecords(
+  before: AuditRecord,
+  after: AuditRecord
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const beforeFields = (before ?? {}) as Record<string, unknown>;
+  const afterFields = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([
+    ...Object.keys(beforeFields),
+    ...Object.keys(afterFields),
+  ]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    // Only fields known on both sides can be compared
+    if (before && after && !(field in beforeFields && field in afterFields)) {
+      continue;
+    }
+
+    const beforeValue = before ? toLogValue(beforeFields[field]) : null;
+    const afterValue = after ? toLogValue(afterFields[field]) : null;
+    if (beforeValue === undefined || afterValue === undefined) continue;
+    if (beforeValue === afterValue) continue;
+
+    changes[field] = HIDDEN_FIELDS.has(field)
+      ? {
+          before: beforeValue === null ? null : HIDDEN_VALUE,
+          after: afterValue === null ? null : HIDDEN_VALUE,
+        }
+      : { before: beforeValue, after: afterValue };
+  }
+
+  return changes;
+}
+
+// The Prisma client, or the client of a transaction the change is part of
+type AuditClient = Pick<typeof prisma, "auditLog">;
+
+export interface AuditEntry {
+  actor: AuditActor;
+  action: AuditAction;
+  entity: AuditEntity;
+  entityId?: number | null;
+  before?: AuditRecord;
+  after?: AuditRecord;
+  roomId?: number | null;
+  tenantId?: number | null;
+}
+
+/**
+ * Record a change in the audit log. An update that changed nothing is not
+ * recorded.
+ */
+export async function recordAudit(
+  entry: AuditEntry,
+  client: AuditClient = prisma
+) {
+  const changes = diffRecords(entry.before, entry.after);
+  if (entry.action === "UPDATE" && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  await client.auditLog.create({
+    data: {
+      action: entry.action,
+      entity: entry.entity,
+      entityId: entry.entityId ?? null,
+      changes,
+      actorId: entry.actor.id,
+      actorName: entry.actor.name || entry.actor.email,
+      roomId: entry.roomId ?? null,
+      tenantId: entry.tenantId ?? null,
+    },
+  });
+}
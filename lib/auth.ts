@@ -0,0 +1,86 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { Permission, Role, can } from "@/lib/permissions";
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  SessionPayload,
+  verifySessionToken,
+} from "@/lib/session";
+
+/**
+ * Get the session of the user making the current request, or null if the
+ * request is not authenticated
+ */
+export async function getSession(): Promise<SessionPayload | null> {
+  const cookieStore = await cookies();
+  return verifySessionToken(cookieStore.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Options for the session cookie set on login
+ */
+export const sessionCookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge: SESSION_MAX_AGE,
+};
+
+export interface CurrentUser {
+  id: number;
+  email: string;
+  name: string | null;
+  role: Role;
+}
+
+/**
+ * Get the user making the current request, or null if the request is not
+ * authenticated. The role is read from the database on every request so
+ * that role changes apply without logging in again.
+ */
+export async function getCurrentUser(): Promise<CurrentUser | null> {
+  const session = await getSession();
+  if (!session) return null;
+
+  return prisma.user.findUnique({
+    where: { id: session.userId },
+    select: { id: true, email: true, name: true, role: true },
+  });
+}
+
+/**
+ * Check that the current user has a permission.
+ * Returns the user, or an error response to send back instead.
+ */
+export async function authorize(
+  permission: Permission
+): Promise<
+  { user: CurrentUser; error: null } | { user: null; error: NextResponse }
+> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return {
+      user: null,
+      error: NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!can(user.role, permission)) {
+    return {
+      user: null,
+      error: NextResponse.json(
+        { error: "You do not have permission to perform this action" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user, error: null };
+}
@@ -0,0 +1,22 @@
+import { prisma } from "@/lib/prisma";
+
+// Number series without gaps, e.g. receipt numbers
+
+export type CounterName = "receipt";
+
+/**
+ * Take the next number of a series. Call it inside the transaction that uses
+ * the number: the counter's row stays locked until the transaction ends, and
+ * a rolled back transaction gives its number back.
+ */
+export async function takeNextNumber(
+  client: Pick<typeof prisma, "counter">,
+  name: CounterName
+): Promise<number> {
+  const counter = await client.counter.upsert({
+    where: { name },
+    create: { name, value: 1 },
+    update: { value: { increment: 1 } },
+  });
+  return counter.value;
+}
@@ -0,0 +1,107 @@
+import { PAYMENT_METHODS } from "@/lib/payments";
+
+// Ways money leaves a security deposit, keyed by the DepositTransactionType enum
+export const DEPOSIT_TRANSACTION_TYPES = {
+  DEDUCTION: "Deduction",
+  REFUND: "Refund",
+} as const;
+
+export type DepositTransactionType = keyof typeof DEPOSIT_TRANSACTION_TYPES;
+
+export interface DepositInput {
+  amount?: unknown;
+  receivedOn?: unknown;
+  method?: unknown;
+}
+
+export interface DepositTransactionInput {
+  type?: unknown;
+  amount?: unknown;
+  date?: unknown;
+  reason?: unknown;
+  method?: unknown;
+}
+
+function isPositiveAmount(value: unknown): boolean {
+  return Number.isInteger(Number(value)) && Number(value) > 0;
+}
+
+function isValidMethod(value: unknown): boolean {
+  return Object.hasOwn(PAYMENT_METHODS, String(value));
+}
+
+/**
+ * Validate the fields of a new deposit.
+ * Returns an error message, or null if the input is valid.
+ */
+export function validateDepositInput(body: DepositInput): string | null {
+  if (body.amount === undefined || !isPositiveAmount(body.amount)) {
+    return "Deposit amount must be a valid positive number";
+  }
+
+  if (
+    body.receivedOn !== undefined &&
+    isNaN(new Date(String(body.receivedOn)).getTime())
+  ) {
+    return "Invalid date format for receivedOn";
+  }
+
+  if (body.method !== undefined && !isValidMethod(body.method)) {
+    return `Payment method must be one of ${Object.keys(PAYMENT_METHODS).join(", ")}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a deduction from or refund of a deposit.
+ * Deductions need a reason so it is clear later why money was kept.
+ * Returns an error message, or null if the input is valid.
+ */
+export function validateDepositTransactionInput(
+  body: DepositTransactionInput
+): string | null {
+  if (!Object.hasOwn(DEPOSIT_TRANSACTION_TYPES, String(body.type))) {
+    return `Type must be one of ${Object.keys(DEPOSIT_TRANSACTION_TYPES).join(", ")}`;
+  }
+
+  if (body.amount === undefined || !isPositiveAmount(body.amount)) {
+    return "Amount must be a valid positive number";
+  }
+
+  if (
+    body.reason !== undefined &&
+    body.reason !== null &&
+    typeof body.reason !== "string"
+  ) {
+    return "Reason must be text";
+  }
+
+  if (body.type === "DEDUCTION" && !String(body.reason ?? "").trim()) {
+    return "A reason is required for a deduction";
+  }
+
+  if (body.date !== undefined && isNaN(new Date(String(body.date)).getTime())) {
+    return "Invalid date format for date";
+  }
+
+  if (body.method !== undefined && !isValidMethod(body.method)) {
+    return `Payment method must be one of ${Object.keys(PAYMENT_METHODS).join(", ")}`;
+  }
+
+  return null;
+}
+
+/**
+ * Amount of a deposit still held, i.e. owed back to the tenant who paid it:
+ * the deposit minus everything deducted or refunded from it
+ */
+export function getDepositBalance(deposit: {
+  amount: number;
+  transactions: { amount: number }[];
+}): number {
+  return deposit.transactions.reduce(
+    (balance, transaction) => balance - transaction.amount,
+    deposit.amount
+  );
+}
@@ -0,0 +1,298 @@
+import { prisma } from "@/lib/prisma";
+import { addMonths, toBillingMonth } from "@/lib/utils";
+import { compareRooms } from "@/lib/rooms";
+import { AuditActor, recordAudit } from "@/lib/audit";
+
+// Rent dues and arrears. Rent is charged per room for every month of its
+// rental period, starting on the day the period starts. Together with any
+// charges for the month (e.g. late fees) it is set against the payments
+// recorded for that billing month.
+
+export interface DuesPeriod {
+  periodFrom: Date;
+  periodTo: Date;
+  rentAmount: number;
+}
+
+export interface DuesPayment {
+  billingMonth: string;
+  amount: number;
+}
+
+export interface DuesCharge {
+  billingMonth: string;
+  amount: number;
+}
+
+export interface RentMonth {
+  billingMonth: string; // YYYY-MM
+  rent: number;
+  startsOn: Date; // the day rent for the month became due
+}
+
+export interface MonthDues {
+  billingMonth: string; // YYYY-MM
+  rent: number;
+  charges: number;
+  due: number; // rent and charges
+  paid: number;
+  balance: number; // still to be paid, never negative
+}
+
+export interface RoomDues {
+  roomId: number;
+  roomName: string;
+  tenants: string[];
+  rentAmount: number;
+  months: MonthDues[]; // every month due so far, oldest first
+  unpaidMonths: number;
+  oldestUnpaidMonth: string | null;
+  arrears: number;
+}
+
+/**
+ * Get the rent due for each month of a rental period that has started by the
+ * given date. A month is due from the day it starts, so a period from
+ * 15 Jan to 15 Dec has rent due for Jan to Nov.
+ */
+export function getRentDue(period: DuesPeriod, asOf: Date): RentMonth[] {
+  const months: RentMonth[] = [];
+  const firstMonth = toBillingMonth(period.periodFrom);
+
+  for (let index = 0; ; index++) {
+    const start = addMonths(period.periodFrom, index);
+    if (start >= period.periodTo || start > asOf) break;
+
+    // Count months from the first billing month rather than using the start
+    // date's month, which skips February for periods starting on the 31st
+    const [year, month] = firstMonth.split("-").map(Number);
+    const date = new Date(Date.UTC(year, month - 1 + index, 1));
+    months.push({
+      billingMonth: toBillingMonth(date),
+      rent: period.rentAmount,
+      startsOn: start,
+    });
+  }
+
+  return months;
+}
+
+/**
+ * Get the rent due for each month over all of a room's rental periods,
+ * oldest first. Months covered by more than one period are charged for each.
+ */
+export function getRentMonths(periods: DuesPeriod[], asOf: Date): RentMonth[] {
+  const byMonth = new Map<string, RentMonth>();
+  for (const period of periods) {
+    for (const month of getRentDue(period, asOf)) {
+      const existing = byMonth.get(month.billingMonth);
+      byMonth.set(
+        month.billingMonth,
+        existing
+          ? {
+              ...existing,
+              rent: existing.rent + month.rent,
+              startsOn:
+                existing.startsOn < month.startsOn
+                  ? existing.startsOn
+                  : month.startsOn,
+            }
+          : month
+      );
+    }
+  }
+
+  return [...byMonth.values()].sort((a, b) =>
+    a.billingMonth.localeCompare(b.billingMonth)
+  );
+}
+
+// Add up amounts by billing month
+function sumByMonth(items: { billingMonth: string; amount: number }[]) {
+  const totals = new Map<string, number>();
+  for (const item of items) {
+    totals.set(
+      item.billingMonth,
+      (totals.get(item.billingMonth) ?? 0) + item.amount
+    );
+  }
+  return totals;
+}
+
+/**
+ * Set the rent and charges due over a room's rental periods against its
+ * payments, month by month. Payments for a month only count towards that
+ * month.
+ */
+export function calculateDues(
+  periods: DuesPeriod[],
+  payments: DuesPayment[],
+  charges: DuesCharge[],
+  asOf: Date
+): Pick<RoomDues, "months" | "unpaidMonths" | "oldestUnpaidMonth" | "arrears"> {
+  const rentByMonth = new Map(
+    getRentMonths(periods, asOf).map((month) => [
+      month.billingMonth,
+      month.rent,
+    ])
+  );
+  const chargesByMonth = sumByMonth(charges);
+  const paidByMonth = sumByMonth(payments);
+
+  const billingMonths = [
+    ...new Set([...rentByMonth.keys(), ...chargesByMonth.keys()]),
+  ].sort();
+  const months = billingMonths.map((billingMonth) => {
+    const rent = rentByMonth.get(billingMonth) ?? 0;
+    const monthCharges = chargesByMonth.get(billingMonth) ?? 0;
+    const paid = paidByMonth.get(billingMonth) ?? 0;
+    return {
+      billingMonth,
+      rent,
+      charges: monthCharges,
+      due: rent + monthCharges,
+      paid,
+      balance: Math.max(0, rent + monthCharges - paid),
+    };
+  });
+  const unpaid = months.filter((month) => month.balance > 0);
+
+  return {
+    months,
+    unpaidMonths: unpaid.length,
+    oldestUnpaidMonth: unpaid[0]?.billingMonth ?? null,
+    arrears: unpaid.reduce((total, month) => total + month.balance, 0),
+  };
+}
+
+/**
+ * Calculate the dues of every occupied room, or of a single room, as of the
+ * given date. Rooms whose period ended while they were vacant, e.g. when
+ * their tenants moved to another room, are included while they are in
+ * arrears. Earlier periods of a renewed room are included; cancelled
+ * payments and waived charges are not counted.
+ */
+export async function getRoomDues(
+  options: { roomId?: number; asOf?: Date } = {}
+): Promise<RoomDues[]> {
+  const asOf = options.asOf ?? new Date();
+
+  const rooms = await prisma.room.findMany({
+    where: {
+      id: options.roomId,
+      deletedAt: null,
+      OR: [
+        { tenants: { some: { status: "ACTIVE", deletedAt: null } } },
+        { periodTo: { lte: asOf } },
+      ],
+    },
+    include: {
+      tenants: {
+        where: { status: "ACTIVE", deletedAt: null },
+        select: { name: true },
+      },
+      periods: true,
+      payments: {
+        where: { voidedAt: null },
+        select: { billingMonth: true, amount: true },
+      },
+      charges: {
+        where: { waivedAt: null, createdAt: { lte: asOf } },
+        select: { billingMonth: true, amount: true },
+      },
+    },
+  });
+
+  return rooms
+    .sort(compareRooms)
+    .map((room) => ({
+      roomId: room.id,
+      roomName: room.name,
+      tenants: room.tenants.map((tenant) => tenant.name),
+      rentAmount: room.rentAmount,
+      ...calculateDues(
+        [...room.periods, room],
+        room.payments,
+        room.charges,
+        asOf
+      ),
+    }))
+    .filter((room) => room.tenants.length > 0 || room.arrears > 0);
+}
+
+// The Prisma client, or the client of the transaction the tenants leave in
+type VacateClient = Pick<typeof prisma, "room" | "auditLog">;
+
+/**
+ * End the period of a room on the day its last tenant left, so a vacant
+ * room stops charging rent while its arrears stay listed. Does nothing if
+ * the room still has tenants or its period ended before then.
+ */
+export async function endPeriodIfVacated(
+  client: VacateClient,
+  actor: AuditActor,
+  roomId: number,
+  leftOn: Date
+) {
+  const room = await client.room.findUniqueOrThrow({
+    where: { id: roomId },
+    include: {
+      _count: {
+        select: { tenants: { where: { status: "ACTIVE", deletedAt: null } } },
+      },
+    },
+  });
+  if (room._count.tenants > 0 || room.periodTo <= leftOn) return;
+
+  const ended = await client.room.update({
+    where: { id: roomId },
+    data: { periodTo: leftOn },
+  });
+  await recordAudit(
+    {
+      actor,
+      action: "UPDATE",
+      entity: "Room",
+      entityId: roomId,
+      before: room,
+      after: ended,
+      roomId,
+    },
+    client
+  );
+}
+
+/**
+ * Get the day the first month of a period that hasn't started by the given
+ * date starts, e.g. when a new rent can take effect without changing the
+ * rent of months already due
+ */
+export function getNextRentDate(periodFrom: Date, asOf: Date): Date {
+  let index = 0;
+  while (addMonths(periodFrom, index) <= asOf) index++;
+  return addMonths(periodFrom, index);
+}
+
+/**
+ * Keep a room's current period, up to the given day, in its period history
+ * before the period or its rent is replaced, so the months already due stay
+ * due at the rent they were charged. Does nothing if no part of the period
+ * comes before that day.
+ */
+export async function archiveCurrentPeriod(
+  client: Pick<typeof prisma, "roomPeriod">,
+  room: { id: number; periodFrom: Date; periodTo: Date; rentAmount: number },
+  until: Date
+) {
+  const periodTo = room.periodTo < until ? room.periodTo : until;
+  if (periodTo <= room.periodFrom) return;
+
+  await client.roomPeriod.create({
+    data: {
+      roomId: room.id,
+      periodFrom: room.periodFrom,
+      periodTo,
+      rentAmount: room.rentAmount,
+    },
+  });
+}
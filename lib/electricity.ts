@@ -0,0 +1,95 @@
+import { isValidBillingMonth } from "@/lib/utils";
+
+// Electricity bills from each room's sub-meter. A reading is recorded for
+// every room each month; the units used are the difference from the room's
+// previous reading, charged at the tariff per unit. The bill is added to the
+// room's account as an ELECTRICITY charge for the reading's billing month.
+// Kept free of server-only imports so the readings page can preview bills.
+
+export interface MeterReadingInput {
+  roomId?: unknown;
+  billingMonth?: unknown;
+  reading?: unknown;
+  readOn?: unknown;
+}
+
+/**
+ * Validate the fields of a meter reading request body.
+ * Returns an error message, or null if the input is valid.
+ */
+export function validateMeterReadingInput(
+  body: MeterReadingInput
+): string | null {
+  if (
+    body.roomId === undefined ||
+    !body.billingMonth ||
+    body.reading === undefined ||
+    body.reading === ""
+  ) {
+    return "Room, billing month and reading are required";
+  }
+
+  if (!isValidBillingMonth(String(body.billingMonth))) {
+    return "Billing month must be in YYYY-MM format";
+  }
+
+  if (!Number.isInteger(Number(body.reading)) || Number(body.reading) < 0) {
+    return "Reading must be a whole number of units";
+  }
+
+  if (
+    body.readOn !== undefined &&
+    isNaN(new Date(String(body.readOn)).getTime())
+  ) {
+    return "Invalid date format for readOn";
+  }
+
+  return null;
+}
+
+export interface ElectricityBill {
+  units: number;
+  amount: number;
+  shares: { name: string; amount: number }[]; // empty when the room pays
+}
+
+/**
+ * Calculate the bill for the units used between two readings. When the bill
+ * is divided among tenants, each pays an equal share in whole rupees, with
+ * any remainder on the first tenants so the shares add up to the bill.
+ */
+export function calculateElectricityBill(
+  previousReading: number,
+  reading: number,
+  rate: number,
+  tenantNames: string[] = []
+): ElectricityBill {
+  const units = Math.max(0, reading - previousReading);
+  const amount = Math.round(units * rate);
+
+  const count = tenantNames.length;
+  const shares = tenantNames.map((name, index) => ({
+    name,
+    amount: Math.floor(amount / count) + (index < amount % count ? 1 : 0),
+  }));
+
+  return { units, amount, shares };
+}
+
+/**
+ * Describe a bill for the room's charges and receipts,
+ * e.g. "120 units (4520 to 4640) at ₹8/unit; Ram ₹480, Shyam ₹480"
+ */
+export function describeElectricityBill(
+  previousReading: number,
+  reading: number,
+  rate: number,
+  bill: ElectricityBill
+): string {
+  const description = `${bill.units} units (${previousReading} to ${reading}) at ₹${rate}/unit`;
+  if (bill.shares.length === 0) return description;
+
+  return `${description}; ${bill.shares
+    .map((share) => `${share.name} ₹${share.amount}`)
+    .join(", ")}`;
+}
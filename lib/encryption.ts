@@ -0,0 +1,100 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  hkdfSync,
+  randomBytes,
+} from "crypto";
+
+// Encryption of sensitive tenant columns (Aadhar and phone numbers) with
+// AES-256-GCM. Encrypted values are stored as
+// "enc:v1:<iv>:<auth tag>:<ciphertext>" in base64, so rows written before
+// encryption was turned on can still be told apart and read.
+
+const PREFIX = "enc:v1:";
+
+// Tenant columns that are encrypted at rest
+export const ENCRYPTED_TENANT_FIELDS = [
+  "aadharNumber",
+  "phoneNumber",
+  "fatherPhoneNumber",
+] as const;
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error("ENCRYPTION_KEY is not set");
+  }
+
+  const key = Buffer.from(secret, "base64");
+  if (key.length !== 32) {
+    throw new Error("ENCRYPTION_KEY must be 32 bytes, base64 encoded");
+  }
+  return key;
+}
+
+// The blind index uses its own key derived from ENCRYPTION_KEY, so the
+// index hashes reveal nothing about the encryption key
+function getBlindIndexKey(): Buffer {
+  return Buffer.from(
+    hkdfSync("sha256", getEncryptionKey(), "", "tenant-blind-index", 32)
+  );
+}
+
+/**
+ * Check if a stored value was encrypted by encryptValue
+ */
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt a value for storage. Already encrypted values are returned as is.
+ */
+export function encryptValue(value: string): string {
+  if (isEncrypted(value)) return value;
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+
+  return (
+    PREFIX +
+    [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString("base64"))
+      .join(":")
+  );
+}
+
+/**
+ * Decrypt a stored value. Values that are not encrypted (rows that have not
+ * been migrated yet) are returned as is.
+ */
+export function decryptValue(value: string): string {
+  if (!isEncrypted(value)) return value;
+
+  const [iv, authTag, ciphertext] = value
+    .slice(PREFIX.length)
+    .split(":")
+    .map((part) => Buffer.from(part, "base64"));
+
+  const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+/**
+ * Keyed hash of an Aadhar number, stored next to the encrypted value so
+ * tenants can be looked up by Aadhar number without decrypting every row
+ */
+export function blindIndex(value: string): string {
+  return createHmac("sha256", getBlindIndexKey())
+    .update(value.replace(/\s/g, ""))
+    .digest("hex");
+}
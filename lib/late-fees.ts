@@ -0,0 +1,189 @@
+import { prisma } from "@/lib/prisma";
+import { DEFAULT_SETTINGS, LodgeSettings } from "@/lib/settings";
+import { RentMonth, getRentMonths } from "@/lib/dues";
+import { formatDate } from "@/lib/utils";
+import { lockRoom } from "@/lib/locks";
+import { AuditActor, recordAudit } from "@/lib/audit";
+
+// Late fees on rent paid after the due day and grace period. They are added
+// to the room's account as LATE_FEE charges, one per billing month, and kept
+// up to date while the month's rent is unpaid by prisma/apply-late-fees.ts,
+// run daily, or on demand through POST /api/charges/late-fees.
+
+const DAY = 1000 * 3600 * 24;
+
+/**
+ * Get the lodge settings, or the defaults if they were never saved
+ */
+export async function getLodgeSettings(): Promise<
+  LodgeSettings & { updatedAt: Date | null; lateFeeRulesChangedAt: Date | null }
+> {
+  const settings = await prisma.lodgeSettings.findUnique({ where: { id: 1 } });
+  return (
+    settings ?? {
+      ...DEFAULT_SETTINGS,
+      updatedAt: null,
+      lateFeeRulesChangedAt: null,
+    }
+  );
+}
+
+/**
+ * Get the day a month's rent must be paid by: the due day of the billing
+ * month, but never before the rent for the month started
+ */
+export function getRentDueDate(month: RentMonth, dueDay: number): Date {
+  const [year, monthIndex] = month.billingMonth.split("-").map(Number);
+  const dueDate = new Date(Date.UTC(year, monthIndex - 1, dueDay));
+  return dueDate < month.startsOn ? new Date(month.startsOn) : dueDate;
+}
+
+/**
+ * Get the date the payments for a month added up to its rent, or null if
+ * the rent has not been paid in full yet
+ */
+export function getRentPaidOn(
+  rent: number,
+  payments: { amount: number; paidOn: Date }[]
+): Date | null {
+  let paid = 0;
+  for (const payment of [...payments].sort(
+    (a, b) => a.paidOn.getTime() - b.paidOn.getTime()
+  )) {
+    paid += payment.amount;
+    if (paid >= rent) return payment.paidOn;
+  }
+  return null;
+}
+
+/**
+ * Calculate the late fee for rent due on dueDate, paid on paidOn or still
+ * unpaid on asOf. Days within the grace period are not counted.
+ */
+export function calculateLateFee(
+  settings: LodgeSettings,
+  dueDate: Date,
+  paidOn: Date | null,
+  asOf: Date
+): number {
+  if (settings.lateFeeType === "NONE" || settings.lateFeeAmount === 0) {
+    return 0;
+  }
+
+  const settledOn = paidOn ?? asOf;
+  const daysLate =
+    Math.floor((settledOn.getTime() - dueDate.getTime()) / DAY) -
+    settings.graceDays;
+  if (daysLate <= 0) return 0;
+
+  if (settings.lateFeeType === "FLAT") {
+    return settings.lateFeeAmount;
+  }
+
+  const fee = daysLate * settings.lateFeeAmount;
+  return settings.lateFeeCap !== null
+    ? Math.min(fee, settings.lateFeeCap)
+    : fee;
+}
+
+/**
+ * Add or update the late fees of every occupied room, or of a single room,
+ * and return the number of fees added or changed. A month's fee is settled
+ * once its rent is paid in full, and waived fees are left alone. Months paid
+ * before the late fee rules were last changed don't get a new fee.
+ * Each room is brought up to date in a transaction that locks it, so it is
+ * safe to run while another run is under way.
+ */
+export async function applyLateFees(
+  actor: AuditActor,
+  options: { roomId?: number; asOf?: Date } = {}
+): Promise<number> {
+  const asOf = options.asOf ?? new Date();
+  const settings = await getLodgeSettings();
+  if (settings.lateFeeType === "NONE") return 0;
+
+  const rooms = await prisma.room.findMany({
+    where: {
+      id: options.roomId,
+      deletedAt: null,
+      tenants: { some: { status: "ACTIVE", deletedAt: null } },
+    },
+    select: { id: true },
+  });
+
+  let changed = 0;
+  for (const { id: roomId } of rooms) {
+    changed += await prisma.$transaction(async (tx) => {
+      await lockRoom(tx, roomId);
+
+      const room = await tx.room.findUniqueOrThrow({
+        where: { id: roomId },
+        include: {
+          periods: true,
+          payments: {
+            where: { voidedAt: null },
+            select: { billingMonth: true, amount: true, paidOn: true },
+          },
+          charges: {
+            where: { type: "LATE_FEE" },
+          },
+        },
+      });
+
+      let roomChanged = 0;
+      for (const month of getRentMonths([...room.periods, room], asOf)) {
+        const existing = room.charges.find(
+          (charge) => charge.billingMonth === month.billingMonth
+        );
+        if (existing?.waivedAt) continue;
+
+        const paidOn = getRentPaidOn(
+          month.rent,
+          room.payments.filter(
+            (payment) => payment.billingMonth === month.billingMonth
+          )
+        );
+        const settledBefore =
+          existing?.updatedAt ?? settings.lateFeeRulesChangedAt;
+        if (paidOn && settledBefore && paidOn < settledBefore) continue;
+
+        const dueDate = getRentDueDate(month, settings.dueDay);
+        const fee = calculateLateFee(settings, dueDate, paidOn, asOf);
+        if (fee === 0 || fee === existing?.amount) continue;
+
+        const charge = existing
+          ? await tx.charge.update({
+              where: { id: existing.id },
+              data: { amount: fee },
+            })
+          : await tx.charge.create({
+              data: {
+                roomId,
+                billingMonth: month.billingMonth,
+                type: "LATE_FEE",
+                amount: fee,
+                description: `Rent due on ${formatDate(dueDate)}`,
+              },
+            });
+
+        await recordAudit(
+          {
+            actor,
+            action: existing ? "UPDATE" : "CREATE",
+            entity: "Charge",
+            entityId: charge.id,
+            before: existing,
+            after: charge,
+            roomId,
+          },
+          tx
+        );
+        roomChanged++;
+      }
+
+      return roomChanged;
+    });
+  }
+
+  return changed;
+}
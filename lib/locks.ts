@@ -0,0 +1,22 @@
+import { prisma } from "@/lib/prisma";
+
+// The client of the transaction the lock is taken in
+type LockClient = Pick<typeof prisma, "$queryRaw">;
+
+/**
+ * Lock a room's row until the end of the transaction. Changes that are
+ * checked against the room's current state (a free bed, a charge not yet
+ * added) take the lock first, so two requests can't both pass the check.
+ */
+export async function lockRoom(client: LockClient, roomId: number) {
+  await client.$queryRaw`SELECT id FROM rooms WHERE id = ${roomId} FOR UPDATE`;
+}
+
+/**
+ * Lock a deposit's row until the end of the transaction, so deductions and
+ * refunds checked against its balance can't together take out more than it
+ * holds
+ */
+export async function lockDeposit(client: LockClient, depositId: number) {
+  await client.$queryRaw`SELECT id FROM deposits WHERE id = ${depositId} FOR UPDATE`;
+}
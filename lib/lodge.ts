@@ -0,0 +1,23 @@
+// Details of the lodge printed on police forms and receipts.
+// Set them in .env, see README.md.
+
+export interface LodgeDetails {
+  name: string;
+  address: string;
+  ownerName: string;
+  phone: string;
+  policeStation: string;
+}
+
+/**
+ * Get the lodge details from the environment
+ */
+export function getLodgeDetails(): LodgeDetails {
+  return {
+    name: process.env.LODGE_NAME || "Brothers Lodge",
+    address: process.env.LODGE_ADDRESS || "",
+    ownerName: process.env.LODGE_OWNER_NAME || "",
+    phone: process.env.LODGE_PHONE || "",
+    policeStation: process.env.LODGE_POLICE_STATION || "",
+  };
+}
@@ -0,0 +1,79 @@
+import { isValidBillingMonth } from "@/lib/utils";
+
+// Payment methods accepted at the lodge, keyed by the PaymentMethod enum
+export const PAYMENT_METHODS = {
+  CASH: "Cash",
+  UPI: "UPI",
+  BANK_TRANSFER: "Bank Transfer",
+  CHEQUE: "Cheque",
+} as const;
+
+export type PaymentMethod = keyof typeof PAYMENT_METHODS;
+
+// Charges added to a room's account on top of the rent, keyed by the
+// ChargeType enum
+export const CHARGE_TYPES = {
+  LATE_FEE: "Late fee",
+  ELECTRICITY: "Electricity",
+} as const;
+
+export type ChargeType = keyof typeof CHARGE_TYPES;
+
+/**
+ * Receipt number as printed, e.g. 42 -> "00042"
+ */
+export function formatReceiptNumber(receiptNumber: number): string {
+  return String(receiptNumber).padStart(5, "0");
+}
+
+export interface PaymentInput {
+  amount?: unknown;
+  paidOn?: unknown;
+  billingMonth?: unknown;
+  method?: unknown;
+}
+
+/**
+ * Validate the fields of a payment request body.
+ * Only the fields that are present are checked, unless `partial` is false,
+ * in which case amount and billingMonth are required.
+ * Returns an error message, or null if the input is valid.
+ */
+export function validatePaymentInput(
+  body: PaymentInput,
+  partial = false
+): string | null {
+  if (!partial && (body.amount === undefined || !body.billingMonth)) {
+    return "Amount and billing month are required";
+  }
+
+  if (
+    body.amount !== undefined &&
+    (!Number.isInteger(Number(body.amount)) || Number(body.amount) <= 0)
+  ) {
+    return "Amount must be a valid positive number";
+  }
+
+  if (
+    body.billingMonth !== undefined &&
+    !isValidBillingMonth(String(body.billingMonth))
+  ) {
+    return "Billing month must be in YYYY-MM format";
+  }
+
+  if (
+    body.paidOn !== undefined &&
+    isNaN(new Date(String(body.paidOn)).getTime())
+  ) {
+    return "Invalid date format for paidOn";
+  }
+
+  if (
+    body.method !== undefined &&
+    !Object.hasOwn(PAYMENT_METHODS, String(body.method))
+  ) {
+    return `Payment method must be one of ${Object.keys(PAYMENT_METHODS).join(", ")}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,103 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+
+// Helpers shared by the PDF documents generated on the server
+
+// A4 page size in PDF points
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+// Page margin and text colours
+export const MARGIN = 50;
+export const BLACK = rgb(0, 0, 0);
+export const GREY = rgb(0.4, 0.4, 0.4);
+export const RED = rgb(0.8, 0.1, 0.1);
+
+export interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+/**
+ * Embed the regular and bold fonts the documents are written in
+ */
+export async function embedFonts(pdf: PDFDocument): Promise<Fonts> {
+  return {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+}
+
+/**
+ * Draw a line of text centred on an A4 page at the given height. Returns the
+ * height of the line below it.
+ */
+export function drawCentered(
+  page: PDFPage,
+  y: number,
+  text: string,
+  size: number,
+  font: PDFFont
+): number {
+  const value = pdfText(text);
+  page.drawText(value, {
+    x: (A4_WIDTH - font.widthOfTextAtSize(value, size)) / 2,
+    y,
+    size,
+    font,
+    color: BLACK,
+  });
+  return y - size - 8;
+}
+
+/**
+ * Make a value safe to draw with the standard PDF fonts, which only cover
+ * Latin characters. Anything else (e.g. Devanagari or ₹) is replaced.
+ */
+export function pdfText(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  return String(value)
+    .replace(/₹/g, "Rs. ")
+    .replace(/[–—]/g, "-")
+    .replace(/[^\x20-\x7E]/g, "?");
+}
+
+/**
+ * Split text into lines that fit within maxWidth at the given font size
+ */
+export function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of pdfText(text).split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  return lines;
+}
+
+/**
+ * Build a PDF response, shown in the browser with the given file name
+ */
+export function pdfResponse(pdf: Uint8Array, fileName: string): Response {
+  return new Response(Buffer.from(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="${fileName.replace(
+        /[^\w.-]+/g,
+        "-"
+      )}"`,
+    },
+  });
+}
@@ -0,0 +1,36 @@
+// Roles and what each of them is allowed to do.
+// Kept free of server-only imports so pages can use it to hide actions.
+
+export const ROLES = {
+  OWNER: "Owner",
+  MANAGER: "Manager",
+  VIEWER: "View only",
+} as const;
+
+export type Role = keyof typeof ROLES;
+
+const PERMISSIONS = {
+  "rooms:create": ["OWNER"],
+  "rooms:delete": ["OWNER"],
+  "rooms:setRent": ["OWNER"],
+  "rooms:update": ["OWNER", "MANAGER"],
+  "tenants:write": ["OWNER", "MANAGER"],
+  "tenants:delete": ["OWNER"],
+  "tenants:revealAadhar": ["OWNER", "MANAGER"],
+  "payments:write": ["OWNER", "MANAGER"],
+  "users:manage": ["OWNER"],
+  "settings:manage": ["OWNER"],
+  "audit:view": ["OWNER"],
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+/**
+ * Check if a role has a permission
+ */
+export function can(
+  role: Role | null | undefined,
+  permission: Permission
+): boolean {
+  return !!role && (PERMISSIONS[permission] as Role[]).includes(role);
+}
@@ -0,0 +1,253 @@
+import { PDFDocument, PDFPage } from "pdf-lib";
+import { formatDate } from "@/lib/utils";
+import { formatAadharNumber } from "@/lib/tenant-schema";
+import { LodgeDetails } from "@/lib/lodge";
+import {
+  A4_HEIGHT,
+  A4_WIDTH,
+  BLACK,
+  GREY,
+  MARGIN,
+  Fonts,
+  drawCentered,
+  embedFonts,
+  pdfText,
+  wrapText,
+} from "@/lib/pdf";
+
+// Police tenant verification form, one page per tenant, laid out like the
+// paper form the local police station hands out.
+
+export interface VerificationTenant {
+  name: string;
+  fatherName: string;
+  villageName: string;
+  tehsil: string;
+  policeStation: string;
+  district: string;
+  pincode: string;
+  state: string;
+  email: string | null;
+  aadharNumber: string; // full number, not masked
+  phoneNumber: string;
+  fatherPhoneNumber: string;
+  createdAt: Date;
+}
+
+export interface VerificationRoom {
+  name: string;
+  rentAmount: number;
+  periodFrom: Date;
+  periodTo: Date;
+  occupants: string[]; // names of everyone currently staying in the room
+}
+
+const LABEL_WIDTH = 170;
+const LINE_HEIGHT = 18;
+
+// Draws one form page top to bottom, keeping track of the current position
+function drawForm(
+  page: PDFPage,
+  fonts: Fonts,
+  tenant: VerificationTenant,
+  room: VerificationRoom,
+  lodge: LodgeDetails
+) {
+  let y = A4_HEIGHT - MARGIN;
+
+  const drawSection = (title: string) => {
+    y -= 8;
+    page.drawText(pdfText(title), {
+      x: MARGIN,
+      y,
+      size: 11,
+      font: fonts.bold,
+    });
+    y -= 6;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: A4_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: GREY,
+    });
+    y -= LINE_HEIGHT;
+  };
+
+  // Label on the left, value on the right, wrapped to the page width
+  const drawRow = (label: string, value: string, maxWidth?: number) => {
+    page.drawText(pdfText(label), {
+      x: MARGIN,
+      y,
+      size: 10,
+      font: fonts.regular,
+      color: GREY,
+    });
+    const lines = wrapText(
+      value || "-",
+      fonts.bold,
+      10,
+      maxWidth ?? A4_WIDTH - MARGIN * 2 - LABEL_WIDTH
+    );
+    lines.forEach((line, index) => {
+      page.drawText(line, {
+        x: MARGIN + LABEL_WIDTH,
+        y: y - index * 13,
+        size: 10,
+        font: fonts.bold,
+      });
+    });
+    y -= LINE_HEIGHT + (lines.length - 1) * 13;
+  };
+
+  const drawParagraph = (text: string, size = 10) => {
+    for (const line of wrapText(
+      text,
+      fonts.regular,
+      size,
+      A4_WIDTH - MARGIN * 2
+    )) {
+      page.drawText(line, { x: MARGIN, y, size, font: fonts.regular });
+      y -= size + 4;
+    }
+  };
+
+  y = drawCentered(page, y, "TENANT VERIFICATION FORM", 16, fonts.bold);
+  y = drawCentered(
+    page,
+    y,
+    "For submission to the local police station",
+    10,
+    fonts.regular
+  );
+  y -= 10;
+
+  // Box for the tenant's photograph, top right
+  const photoWidth = 90;
+  const photoHeight = 110;
+  const photoTop = y;
+  page.drawRectangle({
+    x: A4_WIDTH - MARGIN - photoWidth,
+    y: photoTop - photoHeight,
+    width: photoWidth,
+    height: photoHeight,
+    borderColor: GREY,
+    borderWidth: 0.75,
+  });
+  page.drawText("Affix recent", {
+    x: A4_WIDTH - MARGIN - photoWidth + 18,
+    y: photoTop - photoHeight / 2 + 6,
+    size: 9,
+    font: fonts.regular,
+    color: GREY,
+  });
+  page.drawText("photograph", {
+    x: A4_WIDTH - MARGIN - photoWidth + 20,
+    y: photoTop - photoHeight / 2 - 6,
+    size: 9,
+    font: fonts.regular,
+    color: GREY,
+  });
+
+  // Rows next to the photo box must not run into it
+  const besidePhotoWidth =
+    A4_WIDTH - MARGIN * 2 - LABEL_WIDTH - photoWidth - 10;
+
+  page.drawText("To,", { x: MARGIN, y, size: 10, font: fonts.regular });
+  y -= 14;
+  page.drawText("The Station House Officer,", {
+    x: MARGIN,
+    y,
+    size: 10,
+    font: fonts.regular,
+  });
+  y -= 14;
+  page.drawText(
+    pdfText(`Police Station: ${lodge.policeStation || "____________________"}`),
+    { x: MARGIN, y, size: 10, font: fonts.regular }
+  );
+  y -= 14;
+
+  drawSection("1. Owner / Lodge Details");
+  drawRow("Lodge name", lodge.name, besidePhotoWidth);
+  drawRow("Owner name", lodge.ownerName, besidePhotoWidth);
+  drawRow("Address", lodge.address, besidePhotoWidth);
+  drawRow("Phone number", lodge.phone);
+
+  drawSection("2. Tenant Details");
+  drawRow("Name of tenant", tenant.name);
+  drawRow("Father's name", tenant.fatherName);
+  drawRow("Aadhar number", formatAadharNumber(tenant.aadharNumber));
+  drawRow("Phone number", tenant.phoneNumber);
+  drawRow("Father's phone number", tenant.fatherPhoneNumber);
+  drawRow("Email", tenant.email || "");
+
+  drawSection("3. Permanent Address of Tenant");
+  drawRow("Village", tenant.villageName);
+  drawRow("Tehsil", tenant.tehsil);
+  drawRow("Police station", tenant.policeStation);
+  drawRow("District", tenant.district);
+  drawRow("State", tenant.state);
+  drawRow("Pincode", tenant.pincode);
+
+  drawSection("4. Tenancy Details");
+  drawRow("Room", room.name);
+  drawRow(
+    "Tenancy period",
+    `${formatDate(room.periodFrom)} to ${formatDate(room.periodTo)}`
+  );
+  drawRow("Monthly rent of room", `Rs. ${room.rentAmount}`);
+  drawRow("Staying since", formatDate(tenant.createdAt));
+  drawRow(
+    "Other occupants of room",
+    room.occupants.filter((name) => name !== tenant.name).join(", ") || "None"
+  );
+
+  drawSection("5. Declaration");
+  drawParagraph(
+    "I declare that the information given above is true and correct to the best of my knowledge. I will inform the owner and the police station of any change in these details."
+  );
+
+  // Signature lines at the bottom of the page
+  const signatureY = MARGIN + 30;
+  const signatures = ["Signature of tenant", "Signature of owner", "Date"];
+  const columnWidth = (A4_WIDTH - MARGIN * 2) / signatures.length;
+  signatures.forEach((label, index) => {
+    const x = MARGIN + index * columnWidth;
+    page.drawLine({
+      start: { x, y: signatureY },
+      end: { x: x + columnWidth - 20, y: signatureY },
+      thickness: 0.5,
+      color: BLACK,
+    });
+    page.drawText(label, {
+      x,
+      y: signatureY - 14,
+      size: 9,
+      font: fonts.regular,
+      color: GREY,
+    });
+  });
+}
+
+/**
+ * Create the police verification form for the given tenants of a room,
+ * one page per tenant
+ */
+export async function createPoliceVerificationPdf(
+  tenants: VerificationTenant[],
+  room: VerificationRoom,
+  lodge: LodgeDetails
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Police verification - ${room.name}`);
+  pdf.setAuthor(lodge.name);
+
+  const fonts = await embedFonts(pdf);
+
+  for (const tenant of tenants) {
+    const page = pdf.addPage([A4_WIDTH, A4_HEIGHT]);
+    drawForm(page, fonts, tenant, room, lodge);
+  }
+
+  return pdf.save();
+}
@@ -1,17 +1,104 @@
 import { PrismaClient } from "@prisma/client";
+import {
+  ENCRYPTED_TENANT_FIELDS,
+  blindIndex,
+  decryptValue,
+  encryptValue,
+  isEncrypted,
+} from "@/lib/encryption";
 
 // PrismaClient is attached to the `global` object in development to prevent
 // exhausting your database connection limit.
 // Learn more: https://pris.ly/d/help/next-js-best-practices
 
-const globalForPrisma = global as unknown as { prisma: PrismaClient };
+// Encrypt the sensitive fields of tenant data before it is written, and keep
+// the Aadhar blind index in step with the Aadhar number
+function encryptTenantData<T>(data: T): T {
+  const fields = { ...data } as Record<string, unknown>;
 
-export const prisma =
-  globalForPrisma.prisma ||
-  new PrismaClient({
-    log: ["query"],
+  if (
+    typeof fields.aadharNumber === "string" &&
+    !isEncrypted(fields.aadharNumber)
+  ) {
+    fields.aadharHash = blindIndex(fields.aadharNumber);
+  }
+
+  for (const field of ENCRYPTED_TENANT_FIELDS) {
+    const value = fields[field];
+    if (typeof value === "string") {
+      fields[field] = encryptValue(value);
+    }
+  }
+
+  return fields as T;
+}
+
+function createPrismaClient() {
+  const client = new PrismaClient({
+    log: [{ emit: "event", level: "query" }],
+  });
+
+  // Log queries without their parameters, which hold tenant details
+  client.$on("query", (event) => {
+    console.log(`prisma:query ${event.query} (${event.duration}ms)`);
   });
 
+  // Tenant Aadhar and phone numbers are encrypted on the way in and
+  // decrypted on the way out, so the rest of the app works with plain values.
+  // Only direct tenant writes are encrypted, not nested writes through a room.
+  return client.$extends({
+    query: {
+      tenant: {
+        create({ args, query }) {
+          args.data = encryptTenantData(args.data);
+          return query(args);
+        },
+        createMany({ args, query }) {
+          args.data = Array.isArray(args.data)
+            ? args.data.map(encryptTenantData)
+            : encryptTenantData(args.data);
+          return query(args);
+        },
+        update({ args, query }) {
+          args.data = encryptTenantData(args.data);
+          return query(args);
+        },
+        updateMany({ args, query }) {
+          args.data = encryptTenantData(args.data);
+          return query(args);
+        },
+        upsert({ args, query }) {
+          args.create = encryptTenantData(args.create);
+          args.update = encryptTenantData(args.update);
+          return query(args);
+        },
+      },
+    },
+    result: {
+      tenant: {
+        aadharNumber: {
+          needs: { aadharNumber: true },
+          compute: (tenant) => decryptValue(tenant.aadharNumber),
+        },
+        phoneNumber: {
+          needs: { phoneNumber: true },
+          compute: (tenant) => decryptValue(tenant.phoneNumber),
+        },
+        fatherPhoneNumber: {
+          needs: { fatherPhoneNumber: true },
+          compute: (tenant) => decryptValue(tenant.fatherPhoneNumber),
+        },
+      },
+    },
+  });
+}
+
+const globalForPrisma = global as unknown as {
+  prisma: ReturnType<typeof createPrismaClient>;
+};
+
+export const prisma = globalForPrisma.prisma || createPrismaClient();
+
 if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
 
 export default prisma;
@@ -0,0 +1,297 @@
+import { PDFDocument, PDFPage } from "pdf-lib";
+import { formatBillingMonth, formatDate } from "@/lib/utils";
+import {
+  CHARGE_TYPES,
+  ChargeType,
+  PAYMENT_METHODS,
+  PaymentMethod,
+  formatReceiptNumber,
+} from "@/lib/payments";
+import { LodgeDetails } from "@/lib/lodge";
+import {
+  A4_HEIGHT,
+  A4_WIDTH,
+  BLACK,
+  GREY,
+  MARGIN,
+  RED,
+  Fonts,
+  drawCentered,
+  embedFonts,
+  pdfText,
+  wrapText,
+} from "@/lib/pdf";
+
+// Numbered rent receipts, printed on the top half of an A4 page so two can
+// be cut from one sheet.
+
+export interface ReceiptPayment {
+  receiptNumber: number;
+  amount: number;
+  paidOn: Date;
+  billingMonth: string;
+  method: PaymentMethod;
+  collectedBy: string | null;
+  voidedAt: Date | null;
+  voidReason: string | null;
+  roomName: string;
+  tenantNames: string[]; // everyone staying in the room when it was paid
+  paidBy: string | null; // the tenant who paid, if recorded
+  charges: ReceiptCharge[]; // charges for the month besides rent
+}
+
+export interface ReceiptCharge {
+  type: ChargeType;
+  amount: number;
+  description: string | null;
+}
+
+const LABEL_WIDTH = 150;
+const LINE_HEIGHT = 20;
+
+const ONES = [
+  "",
+  "One",
+  "Two",
+  "Three",
+  "Four",
+  "Five",
+  "Six",
+  "Seven",
+  "Eight",
+  "Nine",
+  "Ten",
+  "Eleven",
+  "Twelve",
+  "Thirteen",
+  "Fourteen",
+  "Fifteen",
+  "Sixteen",
+  "Seventeen",
+  "Eighteen",
+  "Nineteen",
+];
+const TENS = [
+  "",
+  "",
+  "Twenty",
+  "Thirty",
+  "Forty",
+  "Fifty",
+  "Sixty",
+  "Seventy",
+  "Eighty",
+  "Ninety",
+];
+
+// Words for 0-999
+function hundredsInWords(value: number): string {
+  const words: string[] = [];
+  if (value >= 100) {
+    words.push(ONES[Math.floor(value / 100)], "Hundred");
+    value %= 100;
+  }
+  if (value >= 20) {
+    words.push(TENS[Math.floor(value / 10)]);
+    value %= 10;
+  }
+  if (value > 0) {
+    words.push(ONES[value]);
+  }
+  return words.join(" ");
+}
+
+// Words for any whole number, grouped the Indian way into crores, lakhs and
+// thousands
+function numberInWords(value: number): string {
+  const words: string[] = [];
+  const crores = Math.floor(value / 10000000);
+  value %= 10000000;
+  if (crores > 0) {
+    words.push(numberInWords(crores), "Crore");
+  }
+
+  const units: [number, string][] = [
+    [100000, "Lakh"],
+    [1000, "Thousand"],
+  ];
+  for (const [size, name] of units) {
+    const count = Math.floor(value / size);
+    value %= size;
+    if (count > 0) {
+      words.push(hundredsInWords(count), name);
+    }
+  }
+  if (value > 0) {
+    words.push(hundredsInWords(value));
+  }
+
+  return words.join(" ");
+}
+
+/**
+ * Write a whole rupee amount in words,
+ * e.g. 125000 -> "Rupees One Lakh Twenty Five Thousand Only"
+ */
+export function amountInWords(amount: number): string {
+  const value = Math.floor(Math.abs(amount));
+  return `Rupees ${value === 0 ? "Zero" : numberInWords(value)} Only`;
+}
+
+function drawReceipt(
+  page: PDFPage,
+  fonts: Fonts,
+  payment: ReceiptPayment,
+  lodge: LodgeDetails
+) {
+  let y = A4_HEIGHT - MARGIN;
+
+  // Label on the left, value on the right, wrapped to the page width
+  const drawRow = (label: string, value: string) => {
+    page.drawText(pdfText(label), {
+      x: MARGIN,
+      y,
+      size: 10,
+      font: fonts.regular,
+      color: GREY,
+    });
+    const lines = wrapText(
+      value || "-",
+      fonts.bold,
+      11,
+      A4_WIDTH - MARGIN * 2 - LABEL_WIDTH
+    );
+    lines.forEach((line, index) => {
+      page.drawText(line, {
+        x: MARGIN + LABEL_WIDTH,
+        y: y - index * 14,
+        size: 11,
+        font: fonts.bold,
+      });
+    });
+    y -= LINE_HEIGHT + (lines.length - 1) * 14;
+  };
+
+  y = drawCentered(page, y, lodge.name.toUpperCase(), 16, fonts.bold);
+  if (lodge.address) {
+    y = drawCentered(page, y, lodge.address, 9, fonts.regular);
+  }
+  if (lodge.phone) {
+    y = drawCentered(page, y, `Phone: ${lodge.phone}`, 9, fonts.regular);
+  }
+  y -= 4;
+  y = drawCentered(page, y, "RENT RECEIPT", 13, fonts.bold);
+
+  // Receipt number on the left, date on the right
+  page.drawText(
+    pdfText(`Receipt No. ${formatReceiptNumber(payment.receiptNumber)}`),
+    { x: MARGIN, y, size: 11, font: fonts.bold }
+  );
+  const dateText = pdfText(`Date: ${formatDate(payment.paidOn)}`);
+  page.drawText(dateText, {
+    x: A4_WIDTH - MARGIN - fonts.bold.widthOfTextAtSize(dateText, 11),
+    y,
+    size: 11,
+    font: fonts.bold,
+  });
+  y -= 10;
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: A4_WIDTH - MARGIN, y },
+    thickness: 0.5,
+    color: GREY,
+  });
+  y -= LINE_HEIGHT;
+
+  drawRow("Room", payment.roomName);
+  drawRow("Tenants", payment.tenantNames.join(", "));
+  if (payment.paidBy) {
+    drawRow("Received from", payment.paidBy);
+  }
+  drawRow("Rent for the month of", formatBillingMonth(payment.billingMonth));
+  for (const charge of payment.charges) {
+    drawRow(
+      CHARGE_TYPES[charge.type],
+      `Rs. ${charge.amount.toLocaleString("en-IN")}/-${
+        charge.description ? ` (${charge.description})` : ""
+      }`
+    );
+  }
+  drawRow("Amount", `Rs. ${payment.amount.toLocaleString("en-IN")}/-`);
+  drawRow("Amount in words", amountInWords(payment.amount));
+  drawRow("Payment mode", PAYMENT_METHODS[payment.method]);
+
+  // Signature line at the bottom right of the receipt
+  y -= 30;
+  const signatureWidth = 160;
+  page.drawLine({
+    start: { x: A4_WIDTH - MARGIN - signatureWidth, y },
+    end: { x: A4_WIDTH - MARGIN, y },
+    thickness: 0.5,
+    color: BLACK,
+  });
+  page.drawText(
+    pdfText(
+      payment.collectedBy
+        ? `Received by ${payment.collectedBy}`
+        : "Authorised signatory"
+    ),
+    {
+      x: A4_WIDTH - MARGIN - signatureWidth,
+      y: y - 14,
+      size: 9,
+      font: fonts.regular,
+      color: GREY,
+    }
+  );
+
+  // A cancelled receipt is printed with a large VOID mark over it
+  if (payment.voidedAt) {
+    const mark = "VOID";
+    const size = 110;
+    page.drawText(mark, {
+      x: (A4_WIDTH - fonts.bold.widthOfTextAtSize(mark, size)) / 2,
+      y: A4_HEIGHT - 330,
+      size,
+      font: fonts.bold,
+      color: RED,
+      opacity: 0.25,
+    });
+    page.drawText(
+      pdfText(
+        `Cancelled on ${formatDate(payment.voidedAt)}${
+          payment.voidReason ? `: ${payment.voidReason}` : ""
+        }`
+      ),
+      { x: MARGIN, y: y - 14, size: 9, font: fonts.bold, color: RED }
+    );
+  }
+
+  // Dashed cutting line below the receipt
+  page.drawLine({
+    start: { x: MARGIN / 2, y: A4_HEIGHT / 2 },
+    end: { x: A4_WIDTH - MARGIN / 2, y: A4_HEIGHT / 2 },
+    thickness: 0.5,
+    color: GREY,
+    dashArray: [4, 4],
+  });
+}
+
+/**
+ * Create the receipt of a payment. Reprints carry the same receipt number.
+ */
+export async function createReceiptPdf(
+  payment: ReceiptPayment,
+  lodge: LodgeDetails
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Receipt ${formatReceiptNumber(payment.receiptNumber)}`);
+  pdf.setAuthor(lodge.name);
+
+  const fonts = await embedFonts(pdf);
+
+  const page = pdf.addPage([A4_WIDTH, A4_HEIGHT]);
+  drawReceipt(page, fonts, payment, lodge);
+
+  return pdf.save();
+}
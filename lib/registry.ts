@@ -0,0 +1,53 @@
+// Columns of the tenant registry, shared by the registry page and its
+// CSV / Excel export so both use the same names.
+
+// List of all available columns for reference
+export const ALL_COLUMNS = {
+  name: "Tenant Name",
+  fatherName: "Father's Name",
+  phoneNumber: "Tenant Mobile",
+  fatherPhoneNumber: "Father's Mobile",
+  villageName: "Village",
+  tehsil: "Tehsil",
+  policeStation: "Police Station",
+  district: "District",
+  state: "State",
+  pincode: "Pincode",
+  aadharNumber: "Aadhar Number",
+  email: "Email",
+  rentAmount: "Rent Amount",
+  periodFrom: "Period From",
+  periodTo: "Period To",
+};
+
+// Group columns by category for better organization
+export const COLUMN_GROUPS = {
+  "Personal Info": ["name", "fatherName", "email"],
+  "Contact Info": ["phoneNumber", "fatherPhoneNumber"],
+  "Address Info": [
+    "villageName",
+    "tehsil",
+    "policeStation",
+    "district",
+    "state",
+    "pincode",
+  ],
+  "Identity Info": ["aadharNumber"],
+  "Room Info": ["rentAmount", "periodFrom", "periodTo"],
+};
+
+export type RegistryColumn = keyof typeof ALL_COLUMNS;
+
+// Columns that belong to the room, repeated on every tenant row of the room
+export const ROOM_COLUMNS: RegistryColumn[] = [
+  "rentAmount",
+  "periodFrom",
+  "periodTo",
+];
+
+/**
+ * Check if a value is the key of a registry column
+ */
+export function isRegistryColumn(value: string): value is RegistryColumn {
+  return Object.hasOwn(ALL_COLUMNS, value);
+}
@@ -0,0 +1,189 @@
+import { addMonths, isWholeNumber } from "@/lib/utils";
+
+// Floors of the lodge by their number, 0 being the ground floor
+export const FLOORS: Record<number, string> = {
+  0: "Ground Floor",
+  1: "First Floor",
+  2: "Second Floor",
+};
+
+// Kinds of room, keyed by the RoomType enum
+export const ROOM_TYPES = {
+  STANDARD: "Standard",
+  DELUXE: "Deluxe",
+  DORMITORY: "Dormitory",
+} as const;
+
+export type RoomType = keyof typeof ROOM_TYPES;
+
+// Most beds a room can be given
+export const MAX_ROOM_CAPACITY = 20;
+
+// Occupied rooms whose period ends within this many days are "expiring soon"
+export const EXPIRING_SOON_DAYS = 30;
+
+// Length of a rental period (lease term) in months
+export const LEASE_TERM_MONTHS = 11;
+
+/**
+ * Get the name of a floor, e.g. "First Floor"
+ */
+export function getFloorLabel(floor: number): string {
+  return FLOORS[floor] ?? `Floor ${floor}`;
+}
+
+/**
+ * Compare two rooms by floor and then by room number, falling back to the
+ * name for rooms with the same number
+ */
+export function compareRooms(
+  a: { floor: number; number: number; name: string },
+  b: { floor: number; number: number; name: string }
+) {
+  if (a.floor !== b.floor) return a.floor - b.floor;
+  if (a.number !== b.number) return a.number - b.number;
+  return a.name.localeCompare(b.name);
+}
+
+/**
+ * Get the name of a unit from the physical rooms it covers, e.g.
+ * "G1 + G2 + G3"
+ */
+export function getUnitName(
+  physicalRooms: { floor: number; number: number; name: string }[]
+): string {
+  return [...physicalRooms]
+    .sort(compareRooms)
+    .map((room) => room.name)
+    .join(" + ");
+}
+
+/**
+ * Format how full a room is, e.g. "2/3 beds"
+ */
+export function formatOccupancy(tenantCount: number, capacity: number): string {
+  return `${tenantCount}/${capacity} beds`;
+}
+
+/**
+ * Check that a number of tenants fits in a room's beds.
+ * Returns an error message, or null if they fit.
+ */
+export function checkCapacity(
+  room: { name: string; capacity: number },
+  tenantCount: number
+): string | null {
+  if (tenantCount <= room.capacity) return null;
+  return `Room ${room.name} has ${room.capacity} bed(s) and can't take ${tenantCount} tenants`;
+}
+
+/**
+ * Group rooms by floor, lowest floor first, keeping the order of the rooms
+ * within each floor
+ */
+export function groupRoomsByFloor<T extends { floor: number }>(
+  rooms: T[]
+): { floor: number; label: string; rooms: T[] }[] {
+  const floors = [...new Set(rooms.map((room) => room.floor))].sort(
+    (a, b) => a - b
+  );
+  return floors.map((floor) => ({
+    floor,
+    label: getFloorLabel(floor),
+    rooms: rooms.filter((room) => room.floor === floor),
+  }));
+}
+
+export interface RoomInput {
+  name?: unknown;
+  floor?: unknown;
+  number?: unknown;
+  capacity?: unknown;
+  type?: unknown;
+  rentAmount?: unknown;
+}
+
+/**
+ * Validate the fields of a room request body. A new room needs all of its
+ * fields except the rent; on an update only the fields present are checked.
+ * Returns an error message, or null if the input is valid.
+ */
+export function validateRoomInput(
+  body: RoomInput,
+  { partial = false } = {}
+): string | null {
+  const required = ["name", "floor", "number", "capacity", "type"] as const;
+  if (!partial) {
+    const missing = required.filter((field) => body[field] === undefined);
+    if (missing.length > 0) {
+      return `Missing required fields: ${missing.join(", ")}`;
+    }
+  }
+
+  if (
+    body.name !== undefined &&
+    (typeof body.name !== "string" || body.name.trim() === "")
+  ) {
+    return "Room name can't be empty";
+  }
+
+  if (body.floor !== undefined && !isWholeNumber(body.floor, 0, 99)) {
+    return "Floor must be a number from 0 (ground floor) to 99";
+  }
+
+  if (body.number !== undefined && !isWholeNumber(body.number, 0)) {
+    return "Room number must be a whole number";
+  }
+
+  if (
+    body.capacity !== undefined &&
+    !isWholeNumber(body.capacity, 1, MAX_ROOM_CAPACITY)
+  ) {
+    return `Capacity must be a number of beds from 1 to ${MAX_ROOM_CAPACITY}`;
+  }
+
+  if (
+    body.type !== undefined &&
+    !Object.hasOwn(ROOM_TYPES, String(body.type))
+  ) {
+    return `Room type must be one of ${Object.keys(ROOM_TYPES).join(", ")}`;
+  }
+
+  if (body.rentAmount !== undefined && !isWholeNumber(body.rentAmount, 0)) {
+    return "Rent amount must be a valid positive number";
+  }
+
+  return null;
+}
+
+/**
+ * Get the period that follows a room's current one when it is renewed:
+ * it starts where the current period ends and runs for one lease term
+ */
+export function getRenewedPeriod(periodTo: string | Date): {
+  periodFrom: Date;
+  periodTo: Date;
+} {
+  const periodFrom = new Date(periodTo);
+  return {
+    periodFrom,
+    periodTo: addMonths(periodFrom, LEASE_TERM_MONTHS),
+  };
+}
+
+export type RoomStatus = "vacant" | "occupied" | "expiring";
+
+/**
+ * Get the occupancy status of a room from its tenant count and period end
+ */
+export function getRoomStatus(
+  tenantCount: number,
+  periodTo: string | Date,
+  today: Date = new Date()
+): RoomStatus {
+  if (tenantCount === 0) return "vacant";
+
+  const daysLeft =
+    (new Date(periodTo).getTime() - today.getTime()) / (1000 * 3600 * 24);
+  return daysLeft <= EXPIRING_SOON_DAYS ? "expiring" : "occupied";
+}
@@ -0,0 +1,97 @@
+// Signed session cookies, verified with the Web Crypto API so they can be
+// checked both in middleware (edge runtime) and in route handlers (node).
+
+export const SESSION_COOKIE = "lodge_session";
+
+// Sessions last a week before the user has to log in again
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7;
+
+export interface SessionPayload {
+  userId: number;
+  email: string;
+  exp: number; // expiry, in seconds since the epoch
+}
+
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("SESSION_SECRET is not set");
+  }
+
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Create a signed session token for a user
+ */
+export async function createSessionToken(
+  user: Pick<SessionPayload, "userId" | "email">
+): Promise<string> {
+  const payload: SessionPayload = {
+    ...user,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE,
+  };
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await getSigningKey(),
+    encoder.encode(body)
+  );
+  return `${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a session token, returning its payload if the signature is valid
+ * and the session has not expired, or null otherwise
+ */
+export async function verifySessionToken(
+  token: string | undefined
+): Promise<SessionPayload | null> {
+  if (!token) return null;
+
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  const key = await getSigningKey();
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      base64UrlDecode(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const payload: SessionPayload = JSON.parse(
+      new TextDecoder().decode(base64UrlDecode(body))
+    );
+    if (payload.exp < Date.now() / 1000) return null;
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,121 @@
+import { isWholeNumber } from "@/lib/utils";
+
+// Lodge settings for rent collection and electricity bills, stored in the
+// lodge_settings table. Kept free of server-only imports so the settings
+// page can use it.
+
+// How late fees are charged, keyed by the LateFeeType enum
+export const LATE_FEE_TYPES = {
+  NONE: "No late fee",
+  FLAT: "Flat fee",
+  PER_DAY: "Fee per day late",
+} as const;
+
+export type LateFeeType = keyof typeof LATE_FEE_TYPES;
+
+// Who pays a room's electricity bill, keyed by the ElectricitySplit enum
+export const ELECTRICITY_SPLITS = {
+  ROOM: "Charge the room as a whole",
+  TENANTS: "Divide among the room's tenants",
+} as const;
+
+export type ElectricitySplit = keyof typeof ELECTRICITY_SPLITS;
+
+// The settings that decide the late fee on a month's rent
+export const LATE_FEE_RULE_FIELDS = [
+  "dueDay",
+  "graceDays",
+  "lateFeeType",
+  "lateFeeAmount",
+  "lateFeeCap",
+] as const;
+
+export interface LodgeSettings {
+  dueDay: number;
+  graceDays: number;
+  lateFeeType: LateFeeType;
+  lateFeeAmount: number;
+  lateFeeCap: number | null;
+  electricityRate: number; // rupees per unit
+  electricitySplit: ElectricitySplit;
+}
+
+// Used until the owner saves the settings for the first time
+export const DEFAULT_SETTINGS: LodgeSettings = {
+  dueDay: 10,
+  graceDays: 0,
+  lateFeeType: "NONE",
+  lateFeeAmount: 0,
+  lateFeeCap: null,
+  electricityRate: 0,
+  electricitySplit: "ROOM",
+};
+
+export interface SettingsInput {
+  dueDay?: unknown;
+  graceDays?: unknown;
+  lateFeeType?: unknown;
+  lateFeeAmount?: unknown;
+  lateFeeCap?: unknown;
+  electricityRate?: unknown;
+  electricitySplit?: unknown;
+}
+
+/**
+ * Validate the fields of a settings request body. Only the fields that are
+ * present are checked.
+ * Returns an error message, or null if the input is valid.
+ */
+export function validateSettingsInput(body: SettingsInput): string | null {
+  // Every month has a 28th, so later due days are not allowed
+  if (body.dueDay !== undefined && !isWholeNumber(body.dueDay, 1, 28)) {
+    return "Due day must be a day of the month from 1 to 28";
+  }
+
+  if (body.graceDays !== undefined && !isWholeNumber(body.graceDays, 0, 31)) {
+    return "Grace days must be a number from 0 to 31";
+  }
+
+  if (
+    body.lateFeeType !== undefined &&
+    !Object.hasOwn(LATE_FEE_TYPES, String(body.lateFeeType))
+  ) {
+    return `Late fee type must be one of ${Object.keys(LATE_FEE_TYPES).join(", ")}`;
+  }
+
+  if (
+    body.lateFeeAmount !== undefined &&
+    !isWholeNumber(body.lateFeeAmount, 0)
+  ) {
+    return "Late fee must be a valid positive number";
+  }
+
+  if (
+    body.lateFeeCap !== undefined &&
+    body.lateFeeCap !== null &&
+    body.lateFeeCap !== "" &&
+    !isWholeNumber(body.lateFeeCap, 0)
+  ) {
+    return "Late fee cap must be a valid positive number";
+  }
+
+  // The tariff may be in paise, e.g. 7.5 rupees per unit
+  if (
+    body.electricityRate !== undefined &&
+    !(
+      Number.isFinite(Number(body.electricityRate)) &&
+      Number(body.electricityRate) >= 0
+    )
+  ) {
+    return "Electricity rate must be a valid positive number";
+  }
+
+  if (
+    body.electricitySplit !== undefined &&
+    !Object.hasOwn(ELECTRICITY_SPLITS, String(body.electricitySplit))
+  ) {
+    return `Electricity split must be one of ${Object.keys(ELECTRICITY_SPLITS).join(", ")}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,137 @@
+import ExcelJS from "exceljs";
+import { formatDate } from "@/lib/utils";
+
+// CSV and Excel files generated on the server for exports
+
+export type CellValue = string | number | Date | null;
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvField(value: CellValue): string {
+  if (value === null) return "";
+
+  let text = value instanceof Date ? formatDate(value) : String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Create a CSV file from a header row and data rows
+ */
+export function toCsv(headers: string[], rows: CellValue[][]): string {
+  return (
+    [headers, ...rows]
+      .map((row) => row.map((value) => toCsvField(value)).join(","))
+      .join("\r\n") + "\r\n"
+  );
+}
+
+/**
+ * Create an Excel (.xlsx) file with a single sheet from a header row and
+ * data rows. Dates and numbers are kept as real values so they can be
+ * sorted and summed.
+ */
+export async function toXlsx(
+  sheetName: string,
+  headers: string[],
+  rows: CellValue[][]
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+
+  sheet.addRow(headers).font = { bold: true };
+  for (const row of rows) {
+    sheet.addRow(row);
+  }
+
+  sheet.columns.forEach((column, index) => {
+    const values = rows.map((row) => row[index]);
+    if (values.some((value) => value instanceof Date)) {
+      column.numFmt = "dd/mm/yyyy";
+    }
+    // Fit the column to its longest value
+    column.width = Math.min(
+      40,
+      Math.max(
+        headers[index].length,
+        ...values.map((value) =>
+          value instanceof Date ? 10 : String(value ?? "").length
+        )
+      ) + 2
+    );
+  });
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export interface CsvRow {
+  line: number; // line of the file the row starts on, from 1
+  values: string[];
+}
+
+/**
+ * Parse CSV text into rows of fields. Handles quoted fields with commas,
+ * escaped quotes and line breaks, and skips blank lines. Each row keeps the
+ * line it starts on so errors can point at it.
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  // Drop the byte order mark Excel adds to CSV files
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push({ line: rowLine, values: row });
+    }
+    row = [];
+    field = "";
+    rowLine = line;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // A line break inside a quoted field is part of the same row
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      line++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,63 @@
+// A tenant's stay history: the rooms they stayed in and when. A tenant moves
+// into their first room when they are added, changes rooms with each transfer
+// and leaves their last room on checkout. Kept free of server-only imports so
+// pages can use it.
+
+export interface StayTenant {
+  roomId: number; // the room they are in now, or moved out of
+  createdAt: string | Date; // the day they moved in
+  checkoutDate: string | Date | null;
+}
+
+export interface StayTransfer {
+  id: number;
+  fromRoomId: number;
+  toRoomId: number;
+  effectiveDate: string | Date;
+}
+
+export interface Stay {
+  roomId: number;
+  movedIn: Date;
+  movedOut: Date | null; // null while they are still staying there
+}
+
+/**
+ * Get the rooms a tenant has stayed in from their transfers, oldest first
+ */
+export function getStays(
+  tenant: StayTenant,
+  transfers: StayTransfer[]
+): Stay[] {
+  const sorted = [...transfers].sort(
+    (a, b) =>
+      new Date(a.effectiveDate).getTime() -
+        new Date(b.effectiveDate).getTime() || a.id - b.id
+  );
+
+  const stays: Stay[] = [];
+  let roomId = sorted[0]?.fromRoomId ?? tenant.roomId;
+  let movedIn = new Date(tenant.createdAt);
+
+  for (const transfer of sorted) {
+    const movedOut = new Date(transfer.effectiveDate);
+    stays.push({ roomId, movedIn, movedOut });
+    roomId = transfer.toRoomId;
+    movedIn = movedOut;
+  }
+
+  stays.push({
+    roomId,
+    movedIn,
+    movedOut: tenant.checkoutDate ? new Date(tenant.checkoutDate) : null,
+  });
+
+  return stays;
+}
+
+/**
+ * Check whether a stay covers the given day
+ */
+export function isStayingOn(stay: Stay, date: Date): boolean {
+  return stay.movedIn <= date && (!stay.movedOut || stay.movedOut >= date);
+}
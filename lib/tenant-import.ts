@@ -0,0 +1,188 @@
+import { parseCsv } from "@/lib/spreadsheet";
+import { ALL_COLUMNS } from "@/lib/registry";
+import {
+  TENANT_FIELDS,
+  TenantField,
+  TenantInput,
+  validateTenant,
+} from "@/lib/tenant-schema";
+
+// Parsing of tenant CSV files for the bulk import. Each row is one tenant,
+// placed by the name of their room. The registry export uses the same column
+// names, so an export with full Aadhar numbers can be edited and imported
+// again. Exports mask Aadhar numbers by default, and rows with a masked
+// number are rejected.
+
+export type ImportMode = "current" | "historical";
+
+// Most rows a single import can contain
+export const MAX_IMPORT_ROWS = 500;
+
+export interface ImportRow {
+  row: number; // line of the file the row starts on, the header being line 1
+  roomName: string;
+  tenant: TenantInput | null; // null when the tenant details are invalid
+  movedIn: Date | null;
+  movedOut: Date | null;
+  errors: string[];
+}
+
+type ImportColumn = TenantField | "room" | "movedIn" | "movedOut";
+
+// Aadhar numbers as masked in exports, e.g. XXXX XXXX 1234
+const MASKED_AADHAR = /^x{4}\s?x{4}\s?\d{4}$/i;
+
+// Compare headers ignoring case, spaces and punctuation
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Accepted headers for each column: the field name, its display name on the
+// tenant form and in the registry, and a few common spellings
+const HEADER_ALIASES: Record<string, ImportColumn> = {
+  room: "room",
+  roomno: "room",
+  roomname: "room",
+  roomnumber: "room",
+  movedin: "movedIn",
+  stayingsince: "movedIn",
+  checkindate: "movedIn",
+  movedout: "movedOut",
+  checkoutdate: "movedOut",
+};
+for (const field of Object.keys(TENANT_FIELDS) as TenantField[]) {
+  HEADER_ALIASES[normaliseHeader(field)] = field;
+  HEADER_ALIASES[normaliseHeader(TENANT_FIELDS[field])] = field;
+  HEADER_ALIASES[normaliseHeader(ALL_COLUMNS[field])] = field;
+}
+
+/**
+ * Parse a date written as DD/MM/YYYY (as in the registry) or YYYY-MM-DD
+ */
+export function parseImportDate(value: string): Date | null {
+  const text = value.trim();
+  let match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) {
+    const date = new Date(
+      Date.UTC(Number(match[3]), Number(match[2]) - 1, Number(match[1]))
+    );
+    return date.getUTCDate() === Number(match[1]) ? date : null;
+  }
+
+  match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) {
+    const date = new Date(`${text}T00:00:00Z`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+}
+
+/**
+ * Parse and validate a tenant CSV file. Returns an error for problems with
+ * the file as a whole, otherwise every row with its own errors.
+ * In historical mode each row is a former tenant from the paper register and
+ * needs the dates they moved in and out.
+ */
+export function parseTenantImport(
+  csv: string,
+  mode: ImportMode
+): { error: string; rows?: never } | { error: null; rows: ImportRow[] } {
+  const [header, ...dataRows] = parseCsv(csv);
+  const headerRow = header?.values;
+
+  if (!headerRow || dataRows.length === 0) {
+    return { error: "The file has no tenant rows" };
+  }
+
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    return {
+      error: `At most ${MAX_IMPORT_ROWS} tenants can be imported at once`,
+    };
+  }
+
+  const columns = headerRow.map(
+    (header) => HEADER_ALIASES[normaliseHeader(header)] ?? null
+  );
+
+  // Every tenant field except email needs a column, and historical rows
+  // need their dates
+  const required: ImportColumn[] = [
+    "room",
+    ...(Object.keys(TENANT_FIELDS) as TenantField[]).filter(
+      (field) => field !== "email"
+    ),
+    ...(mode === "historical" ? (["movedIn", "movedOut"] as const) : []),
+  ];
+  const missing = required.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    const names = missing.map((column) =>
+      column === "room"
+        ? "Room No."
+        : column === "movedIn"
+          ? "Moved In"
+          : column === "movedOut"
+            ? "Moved Out"
+            : ALL_COLUMNS[column]
+    );
+    return { error: `The file is missing these columns: ${names.join(", ")}` };
+  }
+
+  const rows = dataRows.map(({ line, values }): ImportRow => {
+    const record: Partial<Record<ImportColumn, string>> = {};
+    columns.forEach((column, columnIndex) => {
+      if (column) record[column] = (values[columnIndex] ?? "").trim();
+    });
+
+    const errors: string[] = [];
+    const roomName = record.room ?? "";
+    if (!roomName) {
+      errors.push("Room No. is required");
+    }
+
+    // A masked Aadhar number gets its own error instead of the usual one
+    const result = validateTenant(record);
+    const masked = MASKED_AADHAR.test(record.aadharNumber ?? "");
+    if (masked) {
+      errors.push(
+        "Aadhar number is masked, export the registry with full Aadhar numbers to import it again"
+      );
+    }
+    if (!result.success) {
+      errors.push(
+        ...Object.entries(result.errors)
+          .filter(([field]) => !(masked && field === "aadharNumber"))
+          .map(([, message]) => message)
+      );
+    }
+
+    let movedIn: Date | null = null;
+    let movedOut: Date | null = null;
+    if (mode === "historical") {
+      movedIn = parseImportDate(record.movedIn ?? "");
+      movedOut = parseImportDate(record.movedOut ?? "");
+      if (!movedIn) {
+        errors.push("Moved In must be a date like 31/12/2024");
+      }
+      if (!movedOut) {
+        errors.push("Moved Out must be a date like 31/12/2024");
+      } else if (movedOut > new Date()) {
+        errors.push("Moved Out can't be in the future");
+      }
+      if (movedIn && movedOut && movedOut < movedIn) {
+        errors.push("Moved Out must be after Moved In");
+      }
+    }
+
+    return {
+      row: line,
+      roomName,
+      tenant: result.success ? result.data : null,
+      movedIn,
+      movedOut,
+      errors,
+    };
+  });
+
+  return { error: null, rows };
+}
@@ -0,0 +1,162 @@
+// Shared validation for tenant details, used by the tenant API routes and
+// the tenant forms so both accept and reject exactly the same input.
+
+import { isValidVerhoeff } from "@/lib/aadhar";
+
+// Tenant fields and their display names, in form order
+export const TENANT_FIELDS = {
+  name: "Tenant name",
+  fatherName: "Father's name",
+  villageName: "Village name",
+  tehsil: "Tehsil",
+  policeStation: "Police station",
+  district: "District",
+  pincode: "Pincode",
+  state: "State",
+  email: "Email",
+  aadharNumber: "Aadhar number",
+  phoneNumber: "Phone number",
+  fatherPhoneNumber: "Father's phone number",
+} as const;
+
+export type TenantField = keyof typeof TENANT_FIELDS;
+
+export interface TenantInput {
+  name: string;
+  fatherName: string;
+  villageName: string;
+  tehsil: string;
+  policeStation: string;
+  district: string;
+  pincode: string;
+  state: string;
+  email: string | null;
+  aadharNumber: string;
+  phoneNumber: string;
+  fatherPhoneNumber: string;
+}
+
+// Error message for each invalid field
+export type TenantFieldErrors = Partial<Record<TenantField, string>>;
+
+export type TenantValidationResult =
+  | { success: true; data: TenantInput }
+  | { success: false; errors: TenantFieldErrors };
+
+// Every field except email is required
+const REQUIRED_FIELDS = (Object.keys(TENANT_FIELDS) as TenantField[]).filter(
+  (field) => field !== "email"
+);
+
+// Fields that only hold digits; spaces are stripped before validation
+const DIGIT_FIELDS: TenantField[] = [
+  "pincode",
+  "aadharNumber",
+  "phoneNumber",
+  "fatherPhoneNumber",
+];
+
+// Format Aadhar number with spaces after every 4 digits
+export function formatAadharNumber(value: string): string {
+  // Remove all non-digits
+  const cleanedValue = value.replace(/\D/g, "");
+
+  // Add spaces after every 4 digits
+  const parts = [];
+  for (let i = 0; i < cleanedValue.length && i < 12; i += 4) {
+    parts.push(cleanedValue.substring(i, i + 4));
+  }
+
+  return parts.join(" ");
+}
+
+// Remove formatting (spaces) from Aadhar number
+export function unformatAadharNumber(value: string): string {
+  return value.replace(/\s/g, "");
+}
+
+// Check if the value is a valid phone number (10 digits)
+export function isValidPhoneNumber(value: string): boolean {
+  return /^\d{10}$/.test(value);
+}
+
+// Check if the value is a valid Aadhar number (12 digits)
+export function isValidAadharNumber(value: string): boolean {
+  return /^\d{12}$/.test(value);
+}
+
+// Check if the value is a valid pincode (6 digits)
+export function isValidPincode(value: string): boolean {
+  return /^\d{6}$/.test(value);
+}
+
+/**
+ * Validate and normalise tenant details from a form or request body.
+ * Returns the cleaned tenant data, or an error message for each bad field.
+ */
+export function validateTenant(input: unknown): TenantValidationResult {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<
+    string,
+    unknown
+  >;
+
+  // Trim text fields and strip spaces from digit fields
+  const value = (field: TenantField): string => {
+    const fieldValue =
+      raw[field] === undefined || raw[field] === null
+        ? ""
+        : String(raw[field]).trim();
+    return DIGIT_FIELDS.includes(field)
+      ? fieldValue.replace(/\s/g, "")
+      : fieldValue;
+  };
+
+  const data: TenantInput = {
+    name: value("name"),
+    fatherName: value("fatherName"),
+    villageName: value("villageName"),
+    tehsil: value("tehsil"),
+    policeStation: value("policeStation"),
+    district: value("district"),
+    pincode: value("pincode"),
+    state: value("state"),
+    email: value("email") || null,
+    aadharNumber: value("aadharNumber"),
+    phoneNumber: value("phoneNumber"),
+    fatherPhoneNumber: value("fatherPhoneNumber"),
+  };
+
+  const errors: TenantFieldErrors = {};
+
+  for (const field of REQUIRED_FIELDS) {
+    if (!data[field]) {
+      errors[field] = `${TENANT_FIELDS[field]} is required`;
+    }
+  }
+
+  if (data.phoneNumber && !isValidPhoneNumber(data.phoneNumber)) {
+    errors.phoneNumber = "Phone number must be 10 digits";
+  }
+
+  if (data.fatherPhoneNumber && !isValidPhoneNumber(data.fatherPhoneNumber)) {
+    errors.fatherPhoneNumber = "Father's phone number must be 10 digits";
+  }
+
+  if (data.aadharNumber && !isValidAadharNumber(data.aadharNumber)) {
+    errors.aadharNumber = "Aadhar number must be 12 digits";
+  } else if (data.aadharNumber && !isValidVerhoeff(data.aadharNumber)) {
+    errors.aadharNumber = "Aadhar number is not valid, check it for typos";
+  }
+
+  if (data.pincode && !isValidPincode(data.pincode)) {
+    errors.pincode = "Pincode must be 6 digits";
+  }
+
+  if (data.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.email)) {
+    errors.email = "Email must be a valid email address";
+  }
+
+  return Object.keys(errors).length > 0
+    ? { success: false, errors }
+    : { success: true, data };
+}
@@ -0,0 +1,115 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { blindIndex } from "@/lib/encryption";
+import { getStays, isStayingOn } from "@/lib/stays";
+import { getDepositBalance } from "@/lib/deposits";
+import { lockRoom } from "@/lib/locks";
+
+/**
+ * Find a current tenant with the given Aadhar number, using the blind index
+ * since the number itself is encrypted. Pass a tenant ID to ignore the tenant
+ * that is being edited, or a room ID to ignore tenants about to be replaced.
+ */
+export async function findCurrentTenantByAadhar(
+  aadharNumber: string,
+  exclude: { tenantId?: number; roomId?: number } = {}
+) {
+  return prisma.tenant.findFirst({
+    where: {
+      aadharHash: blindIndex(aadharNumber),
+      status: "ACTIVE",
+      deletedAt: null,
+      id: exclude.tenantId ? { not: exclude.tenantId } : undefined,
+      roomId: exclude.roomId ? { not: exclude.roomId } : undefined,
+    },
+    include: { room: true },
+  });
+}
+
+// Error for a room merged, split or moved to the trash after it was checked
+export function roomClosedError(room: { name: string }): string {
+  return `Room ${room.name} has just been merged, split or moved to the trash`;
+}
+
+/**
+ * Count the current tenants of a room inside a transaction, locking the room
+ * first so another request can't take the beds counted as free, or merge or
+ * split the room, before the transaction ends. Returns null if the room has
+ * been merged, split or moved to the trash since it was read.
+ */
+export async function countRoomTenantsForUpdate(
+  client: Pick<typeof prisma, "$queryRaw" | "room" | "tenant">,
+  roomId: number
+): Promise<number | null> {
+  await lockRoom(client, roomId);
+  const room = await client.room.findUniqueOrThrow({ where: { id: roomId } });
+  if (room.deletedAt || room.retiredAt) return null;
+
+  return client.tenant.count({
+    where: { roomId, status: "ACTIVE", deletedAt: null },
+  });
+}
+
+/**
+ * Find the IDs of the tenants matching a filter whose own or father's phone
+ * number contains the given digits. Phone numbers are encrypted, so they are
+ * matched here after decryption rather than in the database.
+ */
+export async function findTenantIdsByPhone(
+  where: Prisma.TenantWhereInput,
+  digits: string
+): Promise<number[]> {
+  const tenants = await prisma.tenant.findMany({
+    where,
+    select: { id: true, phoneNumber: true, fatherPhoneNumber: true },
+  });
+
+  return tenants
+    .filter(
+      (tenant) =>
+        tenant.phoneNumber.includes(digits) ||
+        tenant.fatherPhoneNumber.includes(digits)
+    )
+    .map((tenant) => tenant.id);
+}
+
+/**
+ * Find the tenants who were staying in a room on the given day, including
+ * those who have since moved out or transferred to another room
+ */
+export async function findTenantsInRoomOn(roomId: number, date: Date) {
+  const tenants = await prisma.tenant.findMany({
+    where: {
+      deletedAt: null,
+      createdAt: { lte: date },
+      OR: [{ roomId }, { transfers: { some: { fromRoomId: roomId } } }],
+    },
+    include: { transfers: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return tenants.filter((tenant) =>
+    getStays(tenant, tenant.transfers).some(
+      (stay) => stay.roomId === roomId && isStayingOn(stay, date)
+    )
+  );
+}
+
+/**
+ * Total of the deposits the given tenants paid that is still held, i.e. what
+ * has to be settled with them when they move out
+ */
+export async function getDepositHeld(
+  client: Pick<typeof prisma, "deposit">,
+  tenantIds: number[]
+): Promise<number> {
+  const deposits = await client.deposit.findMany({
+    where: { tenantId: { in: tenantIds } },
+    include: { transactions: true },
+  });
+
+  return deposits.reduce(
+    (total, deposit) => total + getDepositBalance(deposit),
+    0
+  );
+}
@@ -0,0 +1,17 @@
+// Deleted tenants and rooms are moved to the trash (their deletedAt is set)
+// instead of being removed. They are hidden from every list, can be
+// restored from the trash page, and are purged for good by
+// prisma/purge-trash.ts once the retention period has passed.
+// Kept free of server-only imports so the trash page can use it.
+
+// Days a deleted tenant or room is kept in the trash before it is purged
+export const TRASH_RETENTION_DAYS = 90;
+
+/**
+ * Get the day a deleted record will be purged
+ */
+export function getPurgeDate(deletedAt: string | Date): Date {
+  const purgeDate = new Date(deletedAt);
+  purgeDate.setDate(purgeDate.getDate() + TRASH_RETENTION_DAYS);
+  return purgeDate;
+}
@@ -0,0 +1,120 @@
+import { PhysicalRoom, RoomType } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { CurrentUser } from "@/lib/auth";
+import { compareRooms, getUnitName } from "@/lib/rooms";
+import { recordAudit } from "@/lib/audit";
+
+// Rooms are let as units made of physical rooms. Merging vacant units
+// retires them and lets their physical rooms together as a new unit;
+// splitting retires a unit and lets each of its physical rooms on its own.
+// A retired unit keeps its tenants, periods and payments, and is reopened
+// when the same physical rooms are let together again.
+
+// The Prisma client, or the client of the transaction a merge or split runs in
+type UnitClient = Pick<typeof prisma, "room" | "physicalRoom" | "auditLog">;
+
+/**
+ * Check that a unit covering the given physical rooms can be opened: its name
+ * must be free, or belong to the retired unit that covered them before.
+ * Returns an error message, or null if the unit can be opened.
+ */
+export async function checkUnitName(
+  physicalRooms: PhysicalRoom[]
+): Promise<string | null> {
+  const name = getUnitName(physicalRooms);
+  const existing = await prisma.room.findUnique({ where: { name } });
+
+  if (!existing || (existing.retiredAt && !existing.deletedAt)) return null;
+  return existing.deletedAt
+    ? `Room ${name} is in the trash. Restore or rename it first.`
+    : `Room ${name} already exists`;
+}
+
+/**
+ * Let physical rooms as one unit, reopening the retired unit of the same name
+ * or creating a new one with the given details. Check the name with
+ * checkUnitName first.
+ */
+export async function openUnit(
+  client: UnitClient,
+  actor: CurrentUser,
+  physicalRooms: PhysicalRoom[],
+  details: { capacity: number; rentAmount: number; type: RoomType }
+) {
+  const name = getUnitName(physicalRooms);
+  // The unit is listed with its first physical room
+  const [first] = [...physicalRooms].sort(compareRooms);
+
+  const existing = await client.room.findUnique({ where: { name } });
+  const unit = existing
+    ? await client.room.update({
+        where: { id: existing.id },
+        data: { retiredAt: null },
+      })
+    : await client.room.create({
+        data: { name, floor: first.floor, number: first.number, ...details },
+      });
+
+  await recordAudit(
+    {
+      actor,
+      action: existing ? "UPDATE" : "CREATE",
+      entity: "Room",
+      entityId: unit.id,
+      before: existing,
+      after: unit,
+      roomId: unit.id,
+    },
+    client
+  );
+
+  for (const physicalRoom of physicalRooms) {
+    const moved = await client.physicalRoom.update({
+      where: { id: physicalRoom.id },
+      data: { unitId: unit.id },
+    });
+
+    await recordAudit(
+      {
+        actor,
+        action: "UPDATE",
+        entity: "PhysicalRoom",
+        entityId: moved.id,
+        before: physicalRoom,
+        after: moved,
+        roomId: unit.id,
+      },
+      client
+    );
+  }
+
+  return unit;
+}
+
+/**
+ * Retire a unit whose physical rooms are being let in other units
+ */
+export async function retireUnit(
+  client: UnitClient,
+  actor: CurrentUser,
+  unitId: number
+) {
+  const before = await client.room.findUniqueOrThrow({ where: { id: unitId } });
+  const unit = await client.room.update({
+    where: { id: unitId },
+    data: { retiredAt: new Date() },
+  });
+
+  await recordAudit(
+    {
+      actor,
+      action: "UPDATE",
+      entity: "Room",
+      entityId: unitId,
+      before,
+      after: unit,
+      roomId: unitId,
+    },
+    client
+  );
+}
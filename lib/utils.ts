@@ -38,3 +38,45 @@ export function toISODateString(date: Date): string {
 export function getTodayString(): string {
   return toISODateString(new Date());
 }
+
+/**
+ * Get the billing month of a date in YYYY-MM format
+ */
+export function toBillingMonth(date: Date): string {
+  return toISODateString(date).slice(0, 7);
+}
+
+/**
+ * Check if a form or request value is a whole number within the given range.
+ * Empty values (null or a blank string) are not numbers, though Number()
+ * reads them as 0.
+ */
+export function isWholeNumber(
+  value: unknown,
+  min: number,
+  max = Infinity
+): boolean {
+  if (value === null || (typeof value === "string" && value.trim() === "")) {
+    return false;
+  }
+  const number = Number(value);
+  return Number.isInteger(number) && number >= min && number <= max;
+}
+
+/**
+ * Check if the value is a billing month in YYYY-MM format
+ */
+export function isValidBillingMonth(value: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+}
+
+/**
+ * Format a YYYY-MM billing month as a human-readable string, e.g. "Mar 2025"
+ */
+export function formatBillingMonth(billingMonth: string): string {
+  const [year, month] = billingMonth.split("-").map(Number);
+  return new Intl.DateTimeFormat("en-IN", {
+    month: "short",
+    year: "numeric",
+  }).format(new Date(year, month - 1, 1));
+}
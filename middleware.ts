@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+
+// Paths that can be reached without logging in
+const PUBLIC_PATHS = ["/login", "/api/auth/login", "/api/auth/logout"];
+
+// Reject unauthenticated API calls and send unauthenticated page views to the login page
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  const session = await verifySessionToken(
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+
+  if (session) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("next", pathname + search);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Skip Next.js internals and static files from /public
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.svg$).*)"],
+};
@@ -0,0 +1,22 @@
+import { prisma } from "../lib/prisma";
+import { applyLateFees } from "../lib/late-fees";
+import { SYSTEM_ACTOR } from "../lib/audit";
+
+// Adds the late fees of rent that is paid late or still unpaid, and keeps
+// per-day fees growing while the rent is unpaid. Meant to be run daily, see
+// the README. Each fee added or changed is recorded in the audit log.
+async function main() {
+  console.log("Applying late fees...");
+  const count = await applyLateFees(SYSTEM_ACTOR);
+  console.log(`Added or updated ${count} late fee(s).`);
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error("Error applying late fees:", e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
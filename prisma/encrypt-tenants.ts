@@ -0,0 +1,69 @@
+import { PrismaClient } from "@prisma/client";
+import {
+  blindIndex,
+  decryptValue,
+  encryptValue,
+  isEncrypted,
+} from "../lib/encryption";
+
+// Encrypts the Aadhar and phone numbers of tenants saved before encryption
+// was turned on, and fills in their Aadhar blind index.
+// Rows that are already encrypted are skipped, so it is safe to run again.
+//
+// Uses a plain PrismaClient on purpose: the client in lib/prisma.ts would
+// decrypt the values on read and hide which rows still need encrypting.
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log("Encrypting tenant details...");
+
+  const tenants = await prisma.tenant.findMany({
+    select: {
+      id: true,
+      aadharNumber: true,
+      phoneNumber: true,
+      fatherPhoneNumber: true,
+      aadharHash: true,
+    },
+  });
+
+  let encryptedCount = 0;
+
+  for (const tenant of tenants) {
+    if (
+      isEncrypted(tenant.aadharNumber) &&
+      isEncrypted(tenant.phoneNumber) &&
+      isEncrypted(tenant.fatherPhoneNumber) &&
+      tenant.aadharHash
+    ) {
+      continue;
+    }
+
+    await prisma.tenant.update({
+      where: { id: tenant.id },
+      data: {
+        aadharNumber: encryptValue(tenant.aadharNumber),
+        phoneNumber: encryptValue(tenant.phoneNumber),
+        fatherPhoneNumber: encryptValue(tenant.fatherPhoneNumber),
+        aadharHash: blindIndex(decryptValue(tenant.aadharNumber)),
+      },
+    });
+    encryptedCount++;
+  }
+
+  console.log(
+    `Encrypted ${encryptedCount} tenant(s), ${
+      tenants.length - encryptedCount
+    } were already encrypted.`
+  );
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error("Error encrypting tenants:", e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "TenantStatus" AS ENUM ('ACTIVE', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "checkout_date" TIMESTAMP(3),
+ADD COLUMN     "status" "TenantStatus" NOT NULL DEFAULT 'ACTIVE';
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('OWNER', 'MANAGER', 'VIEWER');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "role" "Role" NOT NULL DEFAULT 'VIEWER';
+
+-- Users created before roles existed had full access, keep it that way
+UPDATE "users" SET "role" = 'OWNER';
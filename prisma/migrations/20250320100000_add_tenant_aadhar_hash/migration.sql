@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "aadhar_hash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "tenants_aadhar_hash_idx" ON "tenants"("aadhar_hash");
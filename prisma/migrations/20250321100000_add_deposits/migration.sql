@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "DepositTransactionType" AS ENUM ('DEDUCTION', 'REFUND');
+
+-- CreateTable
+CREATE TABLE "deposits" (
+    "id" SERIAL NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "received_on" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "method" "PaymentMethod" NOT NULL DEFAULT 'CASH',
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "room_id" INTEGER NOT NULL,
+    "tenant_id" INTEGER,
+
+    CONSTRAINT "deposits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "deposit_transactions" (
+    "id" SERIAL NOT NULL,
+    "type" "DepositTransactionType" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reason" TEXT,
+    "method" "PaymentMethod",
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deposit_id" INTEGER NOT NULL,
+
+    CONSTRAINT "deposit_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "deposits_room_id_idx" ON "deposits"("room_id");
+
+-- CreateIndex
+CREATE INDEX "deposits_tenant_id_idx" ON "deposits"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "deposit_transactions_deposit_id_idx" ON "deposit_transactions"("deposit_id");
+
+-- AddForeignKey
+ALTER TABLE "deposits" ADD CONSTRAINT "deposits_room_id_fkey" FOREIGN KEY ("room_id") REFERENCES "rooms"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deposits" ADD CONSTRAINT "deposits_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deposit_transactions" ADD CONSTRAINT "deposit_transactions_deposit_id_fkey" FOREIGN KEY ("deposit_id") REFERENCES "deposits"("id") ON DELETE CASCADE ON UPDATE CASCADE;
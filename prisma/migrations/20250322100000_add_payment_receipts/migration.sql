@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "receipt_number" SERIAL NOT NULL,
+ADD COLUMN     "void_reason" TEXT,
+ADD COLUMN     "voided_at" TIMESTAMP(3);
+
+-- Number the receipts of existing payments in the order they were recorded
+UPDATE "payments" SET "receipt_number" = "numbered"."number"
+FROM (SELECT "id", ROW_NUMBER() OVER (ORDER BY "id") AS "number" FROM "payments") AS "numbered"
+WHERE "payments"."id" = "numbered"."id";
+
+SELECT setval(pg_get_serial_sequence('payments', 'receipt_number'), COALESCE(MAX("receipt_number"), 0) + 1, false) FROM "payments";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_receipt_number_key" ON "payments"("receipt_number");
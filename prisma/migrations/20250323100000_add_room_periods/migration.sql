@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "room_periods" (
+    "id" SERIAL NOT NULL,
+    "period_from" TIMESTAMP(3) NOT NULL,
+    "period_to" TIMESTAMP(3) NOT NULL,
+    "rent_amount" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "room_id" INTEGER NOT NULL,
+
+    CONSTRAINT "room_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "room_periods_room_id_idx" ON "room_periods"("room_id");
+
+-- AddForeignKey
+ALTER TABLE "room_periods" ADD CONSTRAINT "room_periods_room_id_fkey" FOREIGN KEY ("room_id") REFERENCES "rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
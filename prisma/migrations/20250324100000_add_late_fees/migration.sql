@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "ChargeType" AS ENUM ('LATE_FEE');
+
+-- CreateEnum
+CREATE TYPE "LateFeeType" AS ENUM ('NONE', 'FLAT', 'PER_DAY');
+
+-- CreateTable
+CREATE TABLE "charges" (
+    "id" SERIAL NOT NULL,
+    "type" "ChargeType" NOT NULL,
+    "billing_month" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "description" TEXT,
+    "waived_at" TIMESTAMP(3),
+    "waived_reason" TEXT,
+    "waived_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "room_id" INTEGER NOT NULL,
+
+    CONSTRAINT "charges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "lodge_settings" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "due_day" INTEGER NOT NULL DEFAULT 10,
+    "grace_days" INTEGER NOT NULL DEFAULT 0,
+    "late_fee_type" "LateFeeType" NOT NULL DEFAULT 'NONE',
+    "late_fee_amount" INTEGER NOT NULL DEFAULT 0,
+    "late_fee_cap" INTEGER,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lodge_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "charges_room_id_idx" ON "charges"("room_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "charges_room_id_billing_month_type_key" ON "charges"("room_id", "billing_month", "type");
+
+-- AddForeignKey
+ALTER TABLE "charges" ADD CONSTRAINT "charges_room_id_fkey" FOREIGN KEY ("room_id") REFERENCES "rooms"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
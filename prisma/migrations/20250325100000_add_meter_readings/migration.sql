@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "ChargeType" ADD VALUE 'ELECTRICITY';
+
+-- CreateEnum
+CREATE TYPE "ElectricitySplit" AS ENUM ('ROOM', 'TENANTS');
+
+-- AlterTable
+ALTER TABLE "lodge_settings" ADD COLUMN     "electricity_rate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "electricity_split" "ElectricitySplit" NOT NULL DEFAULT 'ROOM';
+
+-- CreateTable
+CREATE TABLE "meter_readings" (
+    "id" SERIAL NOT NULL,
+    "billing_month" TEXT NOT NULL,
+    "reading" INTEGER NOT NULL,
+    "read_on" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "recorded_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "room_id" INTEGER NOT NULL,
+
+    CONSTRAINT "meter_readings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "meter_readings_room_id_idx" ON "meter_readings"("room_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "meter_readings_room_id_billing_month_key" ON "meter_readings"("room_id", "billing_month");
+
+-- AddForeignKey
+ALTER TABLE "meter_readings" ADD CONSTRAINT "meter_readings_room_id_fkey" FOREIGN KEY ("room_id") REFERENCES "rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
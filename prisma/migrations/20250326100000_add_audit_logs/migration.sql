@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE');
+
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" SERIAL NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "entity" TEXT NOT NULL,
+    "entity_id" INTEGER,
+    "changes" JSONB NOT NULL,
+    "actor_id" INTEGER,
+    "actor_name" TEXT NOT NULL,
+    "room_id" INTEGER,
+    "tenant_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_room_id_idx" ON "audit_logs"("room_id");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_tenant_id_idx" ON "audit_logs"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_created_at_idx" ON "audit_logs"("created_at");
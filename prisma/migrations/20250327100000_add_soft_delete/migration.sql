@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "rooms" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "deleted_at" TIMESTAMP(3);
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "RoomType" AS ENUM ('STANDARD', 'DELUXE', 'DORMITORY');
+
+-- AlterTable
+ALTER TABLE "rooms" ADD COLUMN     "capacity" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "floor" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "number" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "type" "RoomType" NOT NULL DEFAULT 'STANDARD';
+
+-- Fill in the floor and number of existing rooms from their names
+-- ("G1 + G2 + G3", "F1".."F12", "S1".."S12")
+UPDATE "rooms" SET "floor" = CASE upper(left(trim("name"), 1))
+    WHEN 'F' THEN 1
+    WHEN 'S' THEN 2
+    ELSE 0
+  END,
+  "number" = COALESCE(substring("name" from '[0-9]+')::INTEGER, 0);
+
+-- Rooms already holding more tenants than the default get enough beds for them
+UPDATE "rooms" SET "capacity" = "counts"."tenants"
+FROM (
+  SELECT "room_id", COUNT(*)::INTEGER AS "tenants"
+  FROM "tenants"
+  WHERE "status" = 'ACTIVE' AND "deleted_at" IS NULL
+  GROUP BY "room_id"
+) AS "counts"
+WHERE "rooms"."id" = "counts"."room_id" AND "counts"."tenants" > "rooms"."capacity";
+
+-- CreateIndex
+CREATE INDEX "rooms_floor_number_idx" ON "rooms"("floor", "number");
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "rooms" ADD COLUMN     "retired_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "physical_rooms" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "floor" INTEGER NOT NULL DEFAULT 0,
+    "number" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "unit_id" INTEGER NOT NULL,
+
+    CONSTRAINT "physical_rooms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "physical_rooms_name_key" ON "physical_rooms"("name");
+
+-- CreateIndex
+CREATE INDEX "physical_rooms_unit_id_idx" ON "physical_rooms"("unit_id");
+
+-- AddForeignKey
+ALTER TABLE "physical_rooms" ADD CONSTRAINT "physical_rooms_unit_id_fkey" FOREIGN KEY ("unit_id") REFERENCES "rooms"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every existing room becomes a unit. A room named after several physical
+-- rooms ("G1 + G2 + G3") covers each of them, the others cover a physical
+-- room of their own name.
+INSERT INTO "physical_rooms" ("name", "floor", "number", "updated_at", "unit_id")
+SELECT trim("part"),
+  CASE
+    WHEN position('+' in "rooms"."name") = 0 THEN "rooms"."floor"
+    WHEN upper(left(trim("part"), 1)) = 'F' THEN 1
+    WHEN upper(left(trim("part"), 1)) = 'S' THEN 2
+    ELSE 0
+  END,
+  CASE
+    WHEN position('+' in "rooms"."name") = 0 THEN "rooms"."number"
+    ELSE COALESCE(substring("part" from '[0-9]+')::INTEGER, 0)
+  END,
+  CURRENT_TIMESTAMP,
+  "rooms"."id"
+FROM "rooms", regexp_split_to_table("rooms"."name", '\+') AS "part"
+WHERE trim("part") <> '';
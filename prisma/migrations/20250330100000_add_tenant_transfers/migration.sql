@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "tenant_transfers" (
+    "id" SERIAL NOT NULL,
+    "effective_date" TIMESTAMP(3) NOT NULL,
+    "transferred_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tenant_id" INTEGER NOT NULL,
+    "from_room_id" INTEGER NOT NULL,
+    "to_room_id" INTEGER NOT NULL,
+
+    CONSTRAINT "tenant_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tenant_transfers_tenant_id_idx" ON "tenant_transfers"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "tenant_transfers_from_room_id_idx" ON "tenant_transfers"("from_room_id");
+
+-- CreateIndex
+CREATE INDEX "tenant_transfers_to_room_id_idx" ON "tenant_transfers"("to_room_id");
+
+-- AddForeignKey
+ALTER TABLE "tenant_transfers" ADD CONSTRAINT "tenant_transfers_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tenant_transfers" ADD CONSTRAINT "tenant_transfers_from_room_id_fkey" FOREIGN KEY ("from_room_id") REFERENCES "rooms"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tenant_transfers" ADD CONSTRAINT "tenant_transfers_to_room_id_fkey" FOREIGN KEY ("to_room_id") REFERENCES "rooms"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "lodge_settings" ADD COLUMN "late_fee_rules_changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Settings saved so far may have changed the late fee rules
+UPDATE "lodge_settings" SET "late_fee_rules_changed_at" = "updated_at";
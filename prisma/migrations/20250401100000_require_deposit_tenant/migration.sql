@@ -0,0 +1,49 @@
+-- Deposits recorded for a whole room go to a tenant staying in it now, the
+-- one who moved in first
+UPDATE "deposits" d SET "tenant_id" = (
+    SELECT t."id" FROM "tenants" t
+    WHERE t."room_id" = d."room_id"
+      AND t."status" = 'ACTIVE'
+      AND t."deleted_at" IS NULL
+    ORDER BY t."created_at", t."id"
+    LIMIT 1
+)
+WHERE d."tenant_id" IS NULL;
+
+-- Otherwise to the tenant who stayed in it most recently
+UPDATE "deposits" d SET "tenant_id" = (
+    SELECT t."id" FROM "tenants" t
+    WHERE t."room_id" = d."room_id"
+       OR t."id" IN (SELECT tt."tenant_id" FROM "tenant_transfers" tt WHERE tt."from_room_id" = d."room_id")
+    ORDER BY COALESCE(
+        (SELECT MAX(tt."effective_date") FROM "tenant_transfers" tt
+         WHERE tt."tenant_id" = t."id" AND tt."from_room_id" = d."room_id"),
+        t."checkout_date",
+        CURRENT_TIMESTAMP
+    ) DESC, t."id" DESC
+    LIMIT 1
+)
+WHERE d."tenant_id" IS NULL;
+
+-- A deposit of a room that never had a tenant can't be given to anyone. Stop
+-- with the deposits to fix by hand rather than guess.
+DO $$
+DECLARE
+    unassigned TEXT;
+BEGIN
+    SELECT string_agg("id"::TEXT, ', ' ORDER BY "id") INTO unassigned
+    FROM "deposits" WHERE "tenant_id" IS NULL;
+
+    IF unassigned IS NOT NULL THEN
+        RAISE EXCEPTION 'Deposits % have no tenant who paid them. Set their tenant_id, or delete them if they were recorded by mistake, then apply this migration again.', unassigned;
+    END IF;
+END $$;
+
+-- DropForeignKey
+ALTER TABLE "deposits" DROP CONSTRAINT "deposits_tenant_id_fkey";
+
+-- AlterTable
+ALTER TABLE "deposits" ALTER COLUMN "tenant_id" SET NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "deposits" ADD CONSTRAINT "deposits_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "counters" (
+    "name" TEXT NOT NULL,
+    "value" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "counters_pkey" PRIMARY KEY ("name")
+);
+
+-- Receipt numbers carry on from the last receipt given
+INSERT INTO "counters" ("name", "value")
+SELECT 'receipt', COALESCE(MAX("receipt_number"), 0) FROM "payments";
+
+-- AlterTable
+ALTER TABLE "payments" ALTER COLUMN "receipt_number" DROP DEFAULT;
+DROP SEQUENCE "payments_receipt_number_seq";
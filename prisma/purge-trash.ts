@@ -0,0 +1,93 @@
+import { prisma } from "../lib/prisma";
+import { TRASH_RETENTION_DAYS } from "../lib/trash";
+import { SYSTEM_ACTOR, recordAudit } from "../lib/audit";
+
+// Deletes for good the tenants and rooms that have been in the trash for
+// longer than the retention period. Meant to be run daily, see the README.
+// Tenants with payments, deposits or transfers are kept, so the money and
+// room history recorded against them is never lost. A row that can't be
+// deleted (e.g. a room with charges against it) is reported and left in the
+// trash. Each purge is recorded in the audit log.
+async function main() {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - TRASH_RETENTION_DAYS);
+  console.log(`Purging the trash of anything deleted before ${cutoff}...`);
+
+  // Tenants first, so their rooms can be purged in the same run
+  const tenants = await prisma.tenant.findMany({
+    where: { deletedAt: { lt: cutoff } },
+    include: {
+      _count: { select: { payments: true, deposits: true, transfers: true } },
+    },
+  });
+
+  let tenantCount = 0;
+  for (const { _count, ...tenant } of tenants) {
+    if (_count.payments > 0 || _count.deposits > 0 || _count.transfers > 0) {
+      console.log(
+        `Keeping tenant #${tenant.id}: they have recorded payments, deposits or transfers`
+      );
+      continue;
+    }
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await tx.tenant.delete({ where: { id: tenant.id } });
+        await recordAudit(
+          {
+            actor: SYSTEM_ACTOR,
+            action: "DELETE",
+            entity: "Tenant",
+            entityId: tenant.id,
+            before: tenant,
+            roomId: tenant.roomId,
+            tenantId: tenant.id,
+          },
+          tx
+        );
+      });
+      tenantCount++;
+    } catch (e) {
+      console.error(`Could not purge tenant #${tenant.id}:`, e);
+    }
+  }
+
+  const rooms = await prisma.room.findMany({
+    where: { deletedAt: { lt: cutoff } },
+  });
+
+  let roomCount = 0;
+  for (const room of rooms) {
+    try {
+      await prisma.$transaction(async (tx) => {
+        await tx.room.delete({ where: { id: room.id } });
+        await recordAudit(
+          {
+            actor: SYSTEM_ACTOR,
+            action: "DELETE",
+            entity: "Room",
+            entityId: room.id,
+            before: room,
+            roomId: room.id,
+          },
+          tx
+        );
+      });
+      roomCount++;
+    } catch (e) {
+      console.error(`Could not purge room ${room.name}:`, e);
+    }
+  }
+
+  console.log(`Purged ${tenantCount} tenant(s) and ${roomCount} room(s).`);
+}
+
+main()
+  .then(async () => {
+    await prisma.$disconnect();
+  })
+  .catch(async (e) => {
+    console.error("Error purging trash:", e);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
@@ -1,14 +1,40 @@
 import { PrismaClient } from "@prisma/client";
+import { hashPassword } from "../lib/password";
 
 const prisma = new PrismaClient();
 
 async function main() {
   console.log("Seeding the database...");
 
-  // Create rooms based on the image (G1+G2+G3, F1-F12, S1-S12)
-  const groundFloorRooms = ["G1 + G2 + G3"];
-  const firstFloorRooms = Array.from({ length: 12 }, (_, i) => `F${i + 1}`);
-  const secondFloorRooms = Array.from({ length: 12 }, (_, i) => `S${i + 1}`);
+  // Create rooms based on the image (G1+G2+G3, F1-F12, S1-S12). The ground
+  // floor rooms are let together as one unit.
+  const groundFloorRooms = [
+    {
+      name: "G1 + G2 + G3",
+      floor: 0,
+      number: 1,
+      capacity: 3,
+      physicalRooms: [1, 2, 3].map((number) => ({
+        name: `G${number}`,
+        floor: 0,
+        number,
+      })),
+    },
+  ];
+  const firstFloorRooms = Array.from({ length: 12 }, (_, i) => ({
+    name: `F${i + 1}`,
+    floor: 1,
+    number: i + 1,
+    capacity: 2,
+    physicalRooms: [{ name: `F${i + 1}`, floor: 1, number: i + 1 }],
+  }));
+  const secondFloorRooms = Array.from({ length: 12 }, (_, i) => ({
+    name: `S${i + 1}`,
+    floor: 2,
+    number: i + 1,
+    capacity: 2,
+    physicalRooms: [{ name: `S${i + 1}`, floor: 2, number: i + 1 }],
+  }));
 
   const allRooms = [
     ...groundFloorRooms,
@@ -19,19 +45,45 @@ async function main() {
   console.log(`Creating ${allRooms.length} rooms...`);
 
   // Create each room in the database, skipping if it already exists
-  for (const roomName of allRooms) {
+  for (const { physicalRooms, ...room } of allRooms) {
     const exists = await prisma.room.findUnique({
-      where: { name: roomName },
+      where: { name: room.name },
     });
 
     if (!exists) {
       await prisma.room.create({
-        data: { name: roomName },
+        data: { ...room, physicalRooms: { create: physicalRooms } },
+      });
+      console.log(`Created room: ${room.name}`);
+    } else {
+      console.log(`Room ${room.name} already exists, skipping...`);
+    }
+  }
+
+  // Create the first login so the app can be used after seeding
+  const adminEmail = process.env.ADMIN_EMAIL?.trim().toLowerCase();
+  const adminPassword = process.env.ADMIN_PASSWORD;
+
+  if (adminEmail && adminPassword) {
+    const exists = await prisma.user.findUnique({
+      where: { email: adminEmail },
+    });
+
+    if (!exists) {
+      await prisma.user.create({
+        data: {
+          email: adminEmail,
+          name: "Admin",
+          passwordHash: await hashPassword(adminPassword),
+          role: "OWNER",
+        },
       });
-      console.log(`Created room: ${roomName}`);
+      console.log(`Created user: ${adminEmail}`);
     } else {
-      console.log(`Room ${roomName} already exists, skipping...`);
+      console.log(`User ${adminEmail} already exists, skipping...`);
     }
+  } else {
+    console.log("ADMIN_EMAIL or ADMIN_PASSWORD not set, skipping user...");
   }
 
   console.log("Seeding completed!");